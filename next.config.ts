@@ -1,7 +1,19 @@
 import type { NextConfig } from 'next'
 
+// BUILD_MODE=server produces a Node build with the /api/tts route;
+// anything else is the static export used for cPanel hosting.
+const isServerBuild = process.env.BUILD_MODE === 'server'
+
 const nextConfig: NextConfig = {
-  output: 'export',
+  output: isServerBuild ? undefined : 'export',
+  // Route handlers are named *.server.ts so the static export never sees them
+  pageExtensions: isServerBuild
+    ? ['tsx', 'ts', 'jsx', 'js', 'server.ts']
+    : ['tsx', 'ts', 'jsx', 'js'],
+  env: {
+    NEXT_PUBLIC_TTS_PROVIDER:
+      process.env.NEXT_PUBLIC_TTS_PROVIDER || (isServerBuild ? 'server' : 'proxy'),
+  },
   trailingSlash: true,
   images: {
     unoptimized: true,
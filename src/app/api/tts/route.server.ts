@@ -0,0 +1,48 @@
+import { createTtsProvider, toTimedAudioJson, type TtsProviderId } from "@/lib/tts-provider";
+import type { VoiceRequest } from "@/lib/audio-utils";
+
+// Only built with BUILD_MODE=server (see next.config.ts). Credentials stay in
+// server-side env vars and are never exposed to the browser.
+const upstream = createTtsProvider({
+  provider: (process.env.TTS_UPSTREAM_PROVIDER as TtsProviderId | undefined) || "proxy",
+  endpoint: process.env.TTS_UPSTREAM_URL || undefined,
+  apiKey: process.env.TTS_API_KEY || undefined,
+  customerId: process.env.TTS_CUSTOMER_ID || undefined,
+  model: process.env.TTS_MODEL || undefined,
+});
+
+export async function POST(request: Request) {
+  let voiceRequest: VoiceRequest;
+
+  try {
+    voiceRequest = await request.json();
+  } catch {
+    return Response.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  if (typeof voiceRequest?.text !== "string" || !voiceRequest.text.trim()) {
+    return Response.json({ error: "Missing text" }, { status: 400 });
+  }
+
+  try {
+    // Browsers that want captions ask for JSON with character timing
+    if (request.headers.get("accept")?.includes("application/json") && upstream.synthesizeWithAlignment) {
+      const result = await upstream.synthesizeWithAlignment(voiceRequest, { signal: request.signal });
+      return Response.json(await toTimedAudioJson(result), {
+        headers: { "Cache-Control": "no-store" },
+      });
+    }
+
+    const audioBlob = await upstream.synthesize(voiceRequest, { signal: request.signal });
+
+    return new Response(audioBlob, {
+      headers: {
+        "Content-Type": audioBlob.type || "audio/mpeg",
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    console.error("Upstream voice generation failed:", error);
+    return Response.json({ error: "Voice generation failed" }, { status: 502 });
+  }
+}
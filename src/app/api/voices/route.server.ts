@@ -0,0 +1,28 @@
+import { createTtsProvider, type TtsProviderId } from "@/lib/tts-provider";
+
+// Only built with BUILD_MODE=server, alongside /api/tts
+const upstream = createTtsProvider({
+  provider: (process.env.TTS_UPSTREAM_PROVIDER as TtsProviderId | undefined) || "proxy",
+  endpoint: process.env.TTS_UPSTREAM_URL || undefined,
+  apiKey: process.env.TTS_API_KEY || undefined,
+  customerId: process.env.TTS_CUSTOMER_ID || undefined,
+  model: process.env.TTS_MODEL || undefined,
+  voicesEndpoint: process.env.TTS_VOICES_URL || undefined,
+});
+
+export async function GET(request: Request) {
+  if (!upstream.listVoices) {
+    return Response.json({ error: "The upstream provider has no voice catalog" }, { status: 404 });
+  }
+
+  try {
+    const voices = await upstream.listVoices({ signal: request.signal });
+
+    return Response.json({ voices }, {
+      headers: { "Cache-Control": "public, max-age=3600" },
+    });
+  } catch (error) {
+    console.error("Upstream voice catalog failed:", error);
+    return Response.json({ error: "Voice catalog unavailable" }, { status: 502 });
+  }
+}
@@ -1,16 +1,72 @@
 "use client";
 
-import { useState, useRef, useCallback } from "react";
+import { useState, useRef, useCallback, useEffect, useMemo } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
 import { useTheme } from "next-themes";
 import TextInput from "@/components/TextInput";
 import VoiceSelector from "@/components/VoiceSelector";
 import AudioPlayer from "@/components/AudioPlayer";
+import LivePlayer from "@/components/LivePlayer";
 import AudioControls from "@/components/AudioControls";
 import VoiceHistory from "@/components/VoiceHistory";
+import ShortcutsDialog from "@/components/ShortcutsDialog";
+import PronunciationDictionaries from "@/components/PronunciationDictionaries";
+import TextNormalization from "@/components/TextNormalization";
+import ScriptCast from "@/components/ScriptCast";
+import ShareSetup from "@/components/ShareSetup";
+import BatchGenerator from "@/components/BatchGenerator";
+import { useShortcuts } from "@/hooks/use-shortcuts";
+import { useVoiceCatalog } from "@/hooks/use-voice-catalog";
+import {
+  generateFromParts,
+  generateScript,
+  generateSpeech,
+  isAbortError,
+  randomSeed,
+  reseedParts,
+  type GenerationProgress,
+  type GenerationStatus,
+  type SpeechPart,
+} from "@/lib/generation";
+import {
+  DEFAULT_HISTORY_OPTIONS,
+  clearHistory,
+  deleteGeneration,
+  getHistoryUsage,
+  loadHistory,
+  saveGeneration,
+  type HistoryUsage,
+  type StoredGeneration,
+} from "@/lib/history-store";
+import { createStreamingPlayback, type StreamingPlayback } from "@/lib/streaming-playback";
+import { DEFAULT_MAX_CHUNK_CHARS } from "@/lib/text-chunker";
+import { forgetWaveform } from "@/lib/waveform";
+import { loadWorkspacePresets } from "@/lib/voice-presets";
+import { hasPermalink, readPermalink } from "@/lib/permalink";
+import type { TextFormat } from "@/lib/markup";
+import type { CaptionTrack } from "@/lib/captions";
+import {
+  DEFAULT_SCRIPT_GAPS,
+  assignVoices,
+  parseScript,
+  type ScriptSettings,
+} from "@/lib/script";
+import {
+  loadDictionaries,
+  saveDictionaries,
+  type PronunciationDictionary,
+} from "@/lib/pronunciation";
+import {
+  DEFAULT_NORMALIZER_OPTIONS,
+  loadNormalizerOptions,
+  saveNormalizerOptions,
+  type NormalizerOptions,
+} from "@/lib/text-normalizer";
 
 interface VoiceSettings {
   voice: string;
@@ -18,6 +74,12 @@ interface VoiceSettings {
   pitch: number;
   stability: number;
   clarity: number;
+  model?: string;
+  style?: number;
+  speakerBoost?: boolean;
+  seed?: number | null;
+  /** Off: every take gets a fresh seed, recorded with it */
+  seedLocked?: boolean;
 }
 
 interface GeneratedAudio {
@@ -25,162 +87,440 @@ interface GeneratedAudio {
   text: string;
   voice: string;
   audioUrl: string;
+  format: string;
+  size: number;
   duration: number;
   createdAt: Date;
   settings: VoiceSettings;
+  /** Missing on entries from before SSML mode, which are all markup */
+  textFormat?: TextFormat;
+  /** Cast and gaps when the text is a multi-speaker script */
+  script?: ScriptSettings;
+  /** Requests and pauses as generated, replayed on regenerate */
+  parts?: SpeechPart[];
+  /** Word timing; estimated from the text when missing */
+  captions?: CaptionTrack;
 }
 
+interface GenerationSource {
+  text: string;
+  settings: VoiceSettings;
+  textFormat: TextFormat;
+  script?: ScriptSettings;
+  /** Replay these instead of building new requests from text */
+  parts?: SpeechPart[];
+}
+
+const DEFAULT_VOICE_SETTINGS: VoiceSettings = {
+  voice: "rachel",
+  speed: 1.0,
+  pitch: 1.0,
+  stability: 0.75,
+  clarity: 0.75,
+  style: 0,
+  speakerBoost: true,
+  seed: null,
+  seedLocked: false,
+};
+
+// Unlocked takes get a fresh seed, recorded so the take can be reproduced
+const withTakeSeed = (settings: VoiceSettings): VoiceSettings =>
+  settings.seedLocked ? settings : { ...settings, seed: randomSeed() };
+
+const toGeneratedAudio = ({ blob, ...record }: StoredGeneration): GeneratedAudio => ({
+  ...record,
+  audioUrl: URL.createObjectURL(blob),
+});
+
+/**
+ * Duration of generated audio, read from its metadata. Fails when the browser
+ * can't decode it, and stops waiting when the generation is cancelled.
+ */
+const readDuration = (audioUrl: string, signal: AbortSignal): Promise<number> =>
+  new Promise((resolve, reject) => {
+    const audio = new Audio();
+    const onAbort = () => {
+      audio.removeAttribute("src");
+      reject(new DOMException("Generation was cancelled", "AbortError"));
+    };
+
+    audio.addEventListener("loadedmetadata", () => {
+      signal.removeEventListener("abort", onAbort);
+      resolve(audio.duration);
+    }, { once: true });
+    audio.addEventListener("error", () => {
+      signal.removeEventListener("abort", onAbort);
+      reject(new Error("The generated audio could not be decoded"));
+    }, { once: true });
+
+    if (signal.aborted) {
+      onAbort();
+      return;
+    }
+    signal.addEventListener("abort", onAbort, { once: true });
+    audio.src = audioUrl;
+  });
+
+// History lists a script under every voice in it
+const scriptVoices = (text: string, script: ScriptSettings): string =>
+  Array.from(new Set(parseScript(text).speakers.flatMap(speaker => script.cast[speaker]?.voice ?? []))).join(", ");
+
+// Chunks generated at once for long texts
+const CHUNK_CONCURRENCY = 2;
+
 export default function HomePage() {
   const { theme, setTheme } = useTheme();
   const [text, setText] = useState("");
-  const [isGenerating, setIsGenerating] = useState(false);
-  const [generationProgress, setGenerationProgress] = useState(0);
+  const [textFormat, setTextFormat] = useState<TextFormat>("markup");
+  const [dictionaries, setDictionaries] = useState<PronunciationDictionary[]>([]);
+  const [scriptMode, setScriptMode] = useState(false);
+  const [scriptSettings, setScriptSettings] = useState<ScriptSettings>({ cast: {}, gaps: DEFAULT_SCRIPT_GAPS });
+  const [normalization, setNormalization] = useState<NormalizerOptions>(DEFAULT_NORMALIZER_OPTIONS);
+  const [generationStatus, setGenerationStatus] = useState<GenerationStatus>("idle");
+  const [generationError, setGenerationError] = useState<string | null>(null);
+  const [generationProgress, setGenerationProgress] = useState<GenerationProgress | null>(null);
   const [currentAudio, setCurrentAudio] = useState<GeneratedAudio | null>(null);
+  const [streamWhileGenerating, setStreamWhileGenerating] = useState(true);
+  // Voice shown with the live player, from the generation that feeds it
+  const [livePlayback, setLivePlayback] = useState<{ stream: StreamingPlayback; voice: string } | null>(null);
+  const [resumeFrom, setResumeFrom] = useState<number | null>(null);
+  const [showShortcuts, setShowShortcuts] = useState(false);
   const [audioHistory, setAudioHistory] = useState<GeneratedAudio[]>([]);
-  const [voiceSettings, setVoiceSettings] = useState<VoiceSettings>({
-    voice: "rachel",
-    speed: 1.0,
-    pitch: 1.0,
-    stability: 0.75,
-    clarity: 0.75,
-  });
+  const [historyUsage, setHistoryUsage] = useState<HistoryUsage | null>(null);
+  const [voiceSettings, setVoiceSettings] = useState<VoiceSettings>(DEFAULT_VOICE_SETTINGS);
+  const voiceCatalog = useVoiceCatalog();
 
   const audioRef = useRef<HTMLAudioElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
 
-  const generateVoice = useCallback(async () => {
-    if (!text.trim() || isGenerating) return;
+  const isGenerating = generationStatus === "queued" || generationStatus === "running";
 
-    setIsGenerating(true);
-    setGenerationProgress(0);
+  const refreshHistoryUsage = useCallback(() => {
+    getHistoryUsage(DEFAULT_HISTORY_OPTIONS)
+      .then(setHistoryUsage)
+      .catch(error => console.error("Failed to read history usage:", error));
+  }, []);
 
-    try {
-      // Simulate progress updates
-      const progressInterval = setInterval(() => {
-        setGenerationProgress(prev => {
-          if (prev >= 90) return prev;
-          return prev + Math.random() * 15;
-        });
-      }, 200);
-
-      // Call the AI service directly from client
-      const response = await fetch("https://oi-server.onrender.com/chat/completions", {
-        method: "POST",
-        headers: {
-          "CustomerId": "cus_Sc64a7mwlJwpuu",
-          "Content-Type": "application/json",
-          "Authorization": "Bearer xxx"
-        },
-        body: JSON.stringify({
-          model: "elevenlabs/eleven-multilingual-v2",
-          messages: [
-            {
-              role: "user",
-              content: JSON.stringify({
-                text: text,
-                voice: voiceSettings.voice || "rachel",
-                model_id: "eleven_multilingual_v2",
-                voice_settings: {
-                  stability: voiceSettings.stability || 0.75,
-                  similarity_boost: voiceSettings.clarity || 0.75,
-                  style: 0.0,
-                  use_speaker_boost: true,
-                },
-                pronunciation_dictionary_locators: [],
-                seed: null,
-                previous_text: null,
-                next_text: null,
-                previous_request_ids: [],
-                next_request_ids: []
-              })
-            }
-          ],
-          max_tokens: 1000,
-          temperature: 0.1
-        })
-      });
+  useEffect(() => {
+    setDictionaries(loadDictionaries());
+    setNormalization(loadNormalizerOptions());
+  }, []);
 
-      clearInterval(progressInterval);
-      setGenerationProgress(100);
+  // Start from the default preset, which may come from the workspace.
+  // A shared link brings its own settings instead.
+  useEffect(() => {
+    let cancelled = false;
+    const shared = hasPermalink(window.location.hash);
 
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
+    loadWorkspacePresets().then(library => {
+      const preset = library.presets.find(item => item.id === library.defaultId);
+      if (!cancelled && !shared && preset) {
+        setVoiceSettings(current => ({ ...current, ...preset.settings }));
       }
+    });
 
-      // Handle different response formats
-      const contentType = response.headers.get("content-type");
-      let audioBlob: Blob;
-
-      if (contentType?.includes("application/json")) {
-        const jsonResponse = await response.json();
-        
-        if (jsonResponse.choices && jsonResponse.choices[0] && jsonResponse.choices[0].message) {
-          const message = jsonResponse.choices[0].message.content;
-          
-          // If it's a base64 encoded audio
-          if (typeof message === "string" && message.startsWith("data:audio")) {
-            const base64Data = message.split(",")[1];
-            const binaryString = atob(base64Data);
-            const bytes = new Uint8Array(binaryString.length);
-            for (let i = 0; i < binaryString.length; i++) {
-              bytes[i] = binaryString.charCodeAt(i);
-            }
-            audioBlob = new Blob([bytes], { type: 'audio/mpeg' });
-          } else if (typeof message === "string" && (message.startsWith("http") || message.startsWith("https"))) {
-            // If it's a URL to audio file
-            const audioResponse = await fetch(message);
-            if (audioResponse.ok) {
-              audioBlob = await audioResponse.blob();
-            } else {
-              throw new Error("Failed to fetch audio from URL");
-            }
-          } else {
-            throw new Error("Unexpected response format from voice API");
-          }
-        } else {
-          throw new Error("No audio data in response");
-        }
-      } else if (contentType?.includes("audio")) {
-        audioBlob = await response.blob();
-      } else {
-        // Try as blob anyway
-        audioBlob = await response.blob();
-        if (audioBlob.size === 0) {
-          throw new Error("Empty response from voice API");
-        }
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const updateDictionaries = useCallback((next: PronunciationDictionary[]) => {
+    setDictionaries(next);
+    saveDictionaries(next);
+  }, []);
+
+  const updateNormalization = useCallback((next: NormalizerOptions) => {
+    setNormalization(next);
+    saveNormalizerOptions(next);
+  }, []);
+
+  // Restore persisted history on startup
+  useEffect(() => {
+    let cancelled = false;
+
+    loadHistory()
+      .then(records => {
+        if (cancelled) return;
+        setAudioHistory(records.map(toGeneratedAudio));
+        refreshHistoryUsage();
+      })
+      .catch(error => console.error("Failed to load voice history:", error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [refreshHistoryUsage]);
+
+  const persistGeneration = useCallback(async (audio: GeneratedAudio, blob: Blob) => {
+    try {
+      const evictedIds = await saveGeneration({
+        id: audio.id,
+        text: audio.text,
+        voice: audio.voice,
+        format: audio.format,
+        size: audio.size,
+        duration: audio.duration,
+        createdAt: audio.createdAt,
+        settings: audio.settings,
+        textFormat: audio.textFormat,
+        script: audio.script,
+        parts: audio.parts,
+        captions: audio.captions,
+        blob,
+      }, DEFAULT_HISTORY_OPTIONS);
+
+      if (evictedIds.length > 0) {
+        setAudioHistory(prev => prev.filter(item => {
+          if (!evictedIds.includes(item.id)) return true;
+          URL.revokeObjectURL(item.audioUrl);
+          forgetWaveform(item.id);
+          return false;
+        }));
       }
-      const audioUrl = URL.createObjectURL(audioBlob);
+      refreshHistoryUsage();
+    } catch (error) {
+      // History still works in memory for this session
+      console.error("Failed to save voice history:", error);
+    }
+  }, [refreshHistoryUsage]);
 
-      // Create audio element to get duration
-      const audio = new Audio(audioUrl);
-      await new Promise((resolve) => {
-        audio.addEventListener("loadedmetadata", resolve);
-      });
+  const runGeneration = useCallback(async (source: GenerationSource) => {
+    if (!source.text.trim() || isGenerating) return;
+
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+
+    setGenerationStatus("queued");
+    setGenerationError(null);
+    setGenerationProgress(null);
+
+    const voice = source.script ? scriptVoices(source.text, source.script) : source.settings.voice;
+
+    // Created inside the click handler so autoplay policies allow it
+    const playback = streamWhileGenerating ? createStreamingPlayback() : null;
+    if (playback) {
+      audioRef.current?.pause();
+      setLivePlayback({ stream: playback, voice });
+    }
+
+    try {
+      const generationOptions = {
+        maxChunkChars: DEFAULT_MAX_CHUNK_CHARS,
+        textFormat: source.textFormat,
+        dictionaries,
+        normalization,
+        concurrency: CHUNK_CONCURRENCY,
+        signal: abortController.signal,
+        onProgress: (progress: GenerationProgress) => {
+          setGenerationStatus("running");
+          setGenerationProgress(progress);
+        },
+        onChunk: playback ? (index: number, blob: Blob) => { playback.enqueue(index, blob); } : undefined,
+        // Scripts carry speed and pitch per speaker
+        effects: source.script ? undefined : { speed: source.settings.speed, pitch: source.settings.pitch },
+      };
+
+      const { blob: audioBlob, parts, captions, appliedSpeed } = source.parts
+        ? await generateFromParts(source.parts, generationOptions)
+        : source.script
+          ? await generateScript(source.text, source.script, generationOptions)
+          : await generateSpeech(source.text, source.settings, generationOptions);
+
+      const audioUrl = URL.createObjectURL(audioBlob);
+      let duration: number;
+      try {
+        duration = await readDuration(audioUrl, abortController.signal);
+      } catch (error) {
+        URL.revokeObjectURL(audioUrl);
+        throw error;
+      }
 
       const newAudio: GeneratedAudio = {
         id: Date.now().toString(),
-        text: text.substring(0, 100) + (text.length > 100 ? "..." : ""),
-        voice: voiceSettings.voice,
+        text: source.text,
+        voice,
         audioUrl,
-        duration: audio.duration,
+        format: audioBlob.type || "audio/mpeg",
+        size: audioBlob.size,
+        duration,
         createdAt: new Date(),
-        settings: { ...voiceSettings },
+        settings: { ...source.settings },
+        textFormat: source.textFormat,
+        script: source.script,
+        parts,
+        captions,
       };
 
+      // Hand the live position over to the assembled track. Live chunks play
+      // before client-side speed processing, so map the position onto it.
+      const livePosition = playback && !playback.isPaused() ? playback.getCurrentTime() / appliedSpeed : null;
+      setResumeFrom(livePosition !== null && livePosition < newAudio.duration - 0.1 ? livePosition : null);
+
       setCurrentAudio(newAudio);
-      setAudioHistory(prev => [newAudio, ...prev.slice(0, 9)]); // Keep last 10
-      
+      setAudioHistory(prev => [newAudio, ...prev]);
+      setGenerationStatus("completed");
+      persistGeneration(newAudio, audioBlob);
     } catch (error) {
-      console.error("Voice generation failed:", error);
-      alert("Failed to generate voice. Please try again.");
+      if (isAbortError(error)) {
+        // Partial chunks are dropped with the aborted pipeline
+        setGenerationStatus("cancelled");
+      } else {
+        console.error("Voice generation failed:", error);
+        setGenerationError(error instanceof Error ? error.message : "Unknown error");
+        setGenerationStatus("failed");
+      }
     } finally {
-      setIsGenerating(false);
-      setGenerationProgress(0);
+      if (abortControllerRef.current === abortController) {
+        abortControllerRef.current = null;
+      }
+      playback?.close();
+      setLivePlayback(null);
+      setGenerationProgress(null);
+    }
+  }, [isGenerating, streamWhileGenerating, persistGeneration, dictionaries, normalization]);
+
+  // New speakers get a voice straight away; edits are stored in scriptSettings
+  const script = useMemo(() => {
+    if (!scriptMode) return null;
+
+    const { lines, speakers } = parseScript(text);
+    const voiceIds = voiceCatalog.voices.map(voice => voice.id);
+    const cast = assignVoices(speakers, scriptSettings.cast, voiceIds, voiceSettings);
+    return { lines, speakers, settings: { ...scriptSettings, cast } };
+  }, [scriptMode, text, scriptSettings, voiceSettings, voiceCatalog.voices]);
+
+  const generateVoice = useCallback(() => {
+    if (script) {
+      const cast = Object.fromEntries(
+        Object.entries(script.settings.cast).map(([speaker, settings]) => [speaker, withTakeSeed(settings)])
+      );
+      const [firstLine] = script.lines;
+      runGeneration({
+        text,
+        settings: (firstLine && cast[firstLine.speaker]) || withTakeSeed(voiceSettings),
+        textFormat: "markup",
+        script: { ...script.settings, cast },
+      });
+    } else {
+      runGeneration({ text, settings: withTakeSeed(voiceSettings), textFormat });
+    }
+  }, [runGeneration, text, voiceSettings, textFormat, script]);
+
+  const loadIntoEditor = useCallback((audio: Pick<GeneratedAudio, "text" | "textFormat" | "script" | "settings">) => {
+    setText(audio.text);
+    setTextFormat(audio.textFormat ?? "markup");
+    setScriptMode(audio.script !== undefined);
+    if (audio.script) setScriptSettings(audio.script);
+    // Older entries may predate newer settings fields
+    setVoiceSettings({ ...DEFAULT_VOICE_SETTINGS, ...audio.settings });
+  }, []);
+
+  // Open shared setup links, including ones pasted into an open tab
+  useEffect(() => {
+    const openPermalink = () => {
+      readPermalink(window.location.hash)
+        .then(snapshot => {
+          if (!snapshot) return;
+          loadIntoEditor(snapshot);
+          // Drop the setup from the address bar so later edits don't look shared
+          window.history.replaceState(null, "", window.location.pathname + window.location.search);
+        })
+        .catch(error => {
+          console.error("Failed to open setup link:", error);
+          alert(`Couldn't open this setup link: ${error.message}. Ask for the setup file instead.`);
+        });
+    };
+
+    openPermalink();
+    window.addEventListener("hashchange", openPermalink);
+    return () => window.removeEventListener("hashchange", openPermalink);
+  }, [loadIntoEditor]);
+
+  const shareSnapshot = useMemo(() => ({
+    text,
+    textFormat: script ? "markup" as const : textFormat,
+    settings: voiceSettings,
+    script: script?.settings,
+  }), [text, textFormat, voiceSettings, script]);
+
+  const regenerate = useCallback((audio: GeneratedAudio, withNewSeed: boolean) => {
+    // One seed for the whole take, recorded everywhere the entry keeps settings
+    const seed = withNewSeed ? randomSeed() : null;
+    const settings = { ...DEFAULT_VOICE_SETTINGS, ...audio.settings, ...(seed !== null ? { seed } : {}) };
+    const textFormat = audio.textFormat ?? "markup";
+    const script = audio.script && seed !== null
+      ? {
+          ...audio.script,
+          cast: Object.fromEntries(Object.entries(audio.script.cast).map(([speaker, speakerSettings]) => [speaker, { ...speakerSettings, seed }])),
+        }
+      : audio.script;
+
+    runGeneration({
+      text: audio.text,
+      settings,
+      textFormat,
+      script,
+      parts: audio.parts && audio.parts.length > 0
+        ? (seed !== null ? reseedParts(audio.parts, seed) : audio.parts)
+        : undefined,
+    });
+  }, [runGeneration]);
+
+  const deleteFromHistory = useCallback(async (audioIds: string[]) => {
+    setAudioHistory(prev => prev.filter(item => {
+      if (!audioIds.includes(item.id)) return true;
+      URL.revokeObjectURL(item.audioUrl);
+      forgetWaveform(item.id);
+      return false;
+    }));
+    setCurrentAudio(prev => (prev && audioIds.includes(prev.id) ? null : prev));
+
+    try {
+      await Promise.all(audioIds.map(id => deleteGeneration(id)));
+    } catch (error) {
+      console.error("Failed to delete from voice history:", error);
     }
-  }, [text, voiceSettings, isGenerating]);
+    refreshHistoryUsage();
+  }, [refreshHistoryUsage]);
+
+  const clearAllHistory = useCallback(async () => {
+    setAudioHistory(prev => {
+      prev.forEach(item => {
+        URL.revokeObjectURL(item.audioUrl);
+        forgetWaveform(item.id);
+      });
+      return [];
+    });
+    setCurrentAudio(null);
+
+    try {
+      await clearHistory();
+    } catch (error) {
+      console.error("Failed to clear voice history:", error);
+    }
+    refreshHistoryUsage();
+  }, [refreshHistoryUsage]);
+
+  const selectAudio = useCallback((audio: GeneratedAudio) => {
+    setResumeFrom(null);
+    setCurrentAudio(audio);
+  }, []);
+
+  const cancelGeneration = useCallback(() => {
+    abortControllerRef.current?.abort();
+  }, []);
+
+  useShortcuts({
+    generate: () => {
+      if (text.trim() && !isGenerating) generateVoice();
+    },
+    showHelp: () => setShowShortcuts(true),
+  });
 
   const wordCount = text.trim().split(/\s+/).filter(word => word.length > 0).length;
   const charCount = text.length;
   const estimatedDuration = Math.ceil(wordCount / 2.5); // ~2.5 words per second
+  const progressPercent = (generationProgress?.fraction ?? 0) * 100;
 
   return (
     <div className="max-w-7xl mx-auto space-y-8">
@@ -229,43 +569,90 @@ export default function HomePage() {
                 Enter the text you want to convert to speech
               </CardDescription>
             </CardHeader>
-            <CardContent>
+            <CardContent className="space-y-4">
               <TextInput
                 value={text}
                 onChange={setText}
+                format={textFormat}
+                onFormatChange={setTextFormat}
+                script={scriptMode}
+                onScriptChange={setScriptMode}
                 placeholder="Enter your text here... Try adding emphasis with *bold text* or pauses with commas and periods for natural speech rhythm."
               />
+              <TextNormalization
+                text={text}
+                format={scriptMode ? "markup" : textFormat}
+                options={normalization}
+                onChange={updateNormalization}
+              />
             </CardContent>
           </Card>
 
           {/* Voice Configuration */}
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          {script ? (
             <Card>
               <CardHeader>
-                <CardTitle>Voice Selection</CardTitle>
-                <CardDescription>Choose your preferred voice and accent</CardDescription>
+                <CardTitle>Cast</CardTitle>
+                <CardDescription>Give each speaker a voice and set the pacing between lines</CardDescription>
               </CardHeader>
               <CardContent>
-                <VoiceSelector
-                  value={voiceSettings.voice}
-                  onChange={(voice) => setVoiceSettings(prev => ({ ...prev, voice }))}
-                />
+                <ScriptCast speakers={script.speakers} settings={script.settings} onChange={setScriptSettings} />
               </CardContent>
             </Card>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <Card>
+                <CardHeader>
+                  <CardTitle>Voice Selection</CardTitle>
+                  <CardDescription>Choose your preferred voice and accent</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <VoiceSelector
+                    value={voiceSettings.voice}
+                    onChange={(voice) => setVoiceSettings(prev => ({ ...prev, voice }))}
+                    settings={voiceSettings}
+                    editorText={text}
+                    editorFormat={textFormat}
+                  />
+                </CardContent>
+              </Card>
 
-            <Card>
-              <CardHeader>
-                <CardTitle>Voice Controls</CardTitle>
-                <CardDescription>Fine-tune speech parameters</CardDescription>
-              </CardHeader>
-              <CardContent>
-                <AudioControls
-                  settings={voiceSettings}
-                  onChange={setVoiceSettings}
-                />
-              </CardContent>
-            </Card>
-          </div>
+              <Card>
+                <CardHeader>
+                  <CardTitle>Voice Controls</CardTitle>
+                  <CardDescription>Fine-tune speech parameters</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <AudioControls
+                    settings={voiceSettings}
+                    onChange={setVoiceSettings}
+                  />
+                </CardContent>
+              </Card>
+            </div>
+          )}
+
+          {/* Pronunciation */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Pronunciation</CardTitle>
+              <CardDescription>Teach voices how to say names, acronyms and jargon</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <PronunciationDictionaries dictionaries={dictionaries} onChange={updateDictionaries} />
+            </CardContent>
+          </Card>
+
+          {/* Batch */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Batch Generation</CardTitle>
+              <CardDescription>Voice many short prompts from a CSV or JSON file and download them as a ZIP</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <BatchGenerator settings={voiceSettings} />
+            </CardContent>
+          </Card>
 
           {/* Generation Controls */}
           <Card>
@@ -274,12 +661,29 @@ export default function HomePage() {
                 {isGenerating && (
                   <div className="space-y-2">
                     <div className="flex items-center justify-between text-sm">
-                      <span>Generating voice...</span>
-                      <span>{Math.round(generationProgress)}%</span>
+                      <span>
+                        {generationStatus === "queued" ? "Preparing request..." : "Generating voice..."}
+                        {generationProgress && generationProgress.totalChunks > 1 && (
+                          <span className="text-muted-foreground">
+                            {" "}(part {Math.min(generationProgress.completedChunks + 1, generationProgress.totalChunks)} of {generationProgress.totalChunks})
+                          </span>
+                        )}
+                      </span>
+                      <span>{Math.round(progressPercent)}%</span>
                     </div>
-                    <Progress value={generationProgress} />
+                    <Progress value={progressPercent} />
                   </div>
                 )}
+
+                {generationStatus === "cancelled" && (
+                  <p className="text-sm text-muted-foreground">Generation cancelled.</p>
+                )}
+
+                {generationStatus === "failed" && (
+                  <p className="text-sm text-red-500">
+                    Failed to generate voice{generationError ? `: ${generationError}` : ""}. Please try again.
+                  </p>
+                )}
                 
                 <div className="flex items-center gap-4">
                   <Button
@@ -290,7 +694,40 @@ export default function HomePage() {
                   >
                     {isGenerating ? "Generating..." : "Generate Voice"}
                   </Button>
+
+                  {isGenerating && (
+                    <Button
+                      variant="outline"
+                      onClick={cancelGeneration}
+                      size="lg"
+                    >
+                      Cancel
+                    </Button>
+                  )}
                   
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      id="stream-playback"
+                      checked={streamWhileGenerating}
+                      onCheckedChange={setStreamWhileGenerating}
+                      disabled={isGenerating}
+                    />
+                    <Label htmlFor="stream-playback" className="text-sm">
+                      Play while generating
+                    </Label>
+                  </div>
+
+                  <ShareSetup snapshot={shareSnapshot} onOpen={loadIntoEditor} disabled={!text.trim()} />
+
+                  <Button
+                    variant="outline"
+                    onClick={() => setShowShortcuts(true)}
+                    size="lg"
+                    title="Keyboard shortcuts"
+                  >
+                    ⌨️
+                  </Button>
+
                   <Button
                     variant="outline"
                     onClick={() => setTheme(theme === "dark" ? "light" : "dark")}
@@ -303,8 +740,23 @@ export default function HomePage() {
             </CardContent>
           </Card>
 
+          {/* Live playback while chunks are still generating */}
+          {livePlayback && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Generated Audio</CardTitle>
+                <CardDescription>
+                  Voice: {livePlayback.voice} • Streaming
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <LivePlayer stream={livePlayback.stream} />
+              </CardContent>
+            </Card>
+          )}
+
           {/* Audio Player */}
-          {currentAudio && (
+          {currentAudio && !livePlayback && (
             <Card>
               <CardHeader>
                 <CardTitle>Generated Audio</CardTitle>
@@ -316,6 +768,7 @@ export default function HomePage() {
                 <AudioPlayer
                   audio={currentAudio}
                   audioRef={audioRef}
+                  resumeFrom={resumeFrom}
                 />
               </CardContent>
             </Card>
@@ -326,8 +779,14 @@ export default function HomePage() {
         <div className="space-y-6">
           <VoiceHistory
             history={audioHistory}
-            onSelect={setCurrentAudio}
+            onSelect={selectAudio}
             currentAudio={currentAudio}
+            usage={historyUsage}
+            onDelete={deleteFromHistory}
+            onLoad={loadIntoEditor}
+            onRegenerate={regenerate}
+            isGenerating={isGenerating}
+            onClear={clearAllHistory}
           />
 
           {/* Features Card */}
@@ -370,6 +829,8 @@ export default function HomePage() {
           </Card>
         </div>
       </div>
+
+      <ShortcutsDialog open={showShortcuts} onOpenChange={setShowShortcuts} />
     </div>
   );
-}
\ No newline at end of file
+}
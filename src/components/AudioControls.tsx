@@ -1,10 +1,28 @@
 "use client";
 
+import { useRef, useState } from "react";
 import { Slider } from "@/components/ui/slider";
 import { Label } from "@/components/ui/label";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { usePresetLibrary } from "@/hooks/use-voice-presets";
+import { randomSeed } from "@/lib/generation";
+import { getTtsProvider } from "@/lib/tts-provider";
+import {
+  VOICE_PRESETS,
+  createCustomPreset,
+  deleteCustomPreset,
+  exportPresets,
+  importPresets,
+  saveCustomPreset,
+  setDefaultPreset,
+  type CustomPreset,
+  type VoicePreset,
+} from "@/lib/voice-presets";
 
 interface VoiceSettings {
   voice: string;
@@ -12,6 +30,12 @@ interface VoiceSettings {
   pitch: number;
   stability: number;
   clarity: number;
+  model?: string;
+  style?: number;
+  speakerBoost?: boolean;
+  seed?: number | null;
+  /** Off: every take gets a fresh seed, recorded with it */
+  seedLocked?: boolean;
 }
 
 interface AudioControlsProps {
@@ -19,8 +43,28 @@ interface AudioControlsProps {
   onChange: (settings: VoiceSettings) => void;
 }
 
+const downloadText = (text: string, filename: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([text], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
 export default function AudioControls({ settings, onChange }: AudioControlsProps) {
-  const updateSetting = (key: keyof VoiceSettings, value: number) => {
+  const library = usePresetLibrary();
+  // null while closed, "new" for a new preset, otherwise the preset being edited
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState("");
+  const [draftDescription, setDraftDescription] = useState("");
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const provider = getTtsProvider();
+  const model = provider.models.find(item => item.id === settings.model) ?? provider.models[0];
+
+  const updateSetting = (key: "speed" | "pitch" | "stability" | "clarity" | "style", value: number) => {
     onChange({
       ...settings,
       [key]: value,
@@ -29,44 +73,83 @@ export default function AudioControls({ settings, onChange }: AudioControlsProps
 
   const resetToDefaults = () => {
     onChange({
-      voice: settings.voice, // Keep current voice
+      // Keep the current voice, model and seed
+      voice: settings.voice,
+      model: settings.model,
+      seed: settings.seed,
+      seedLocked: settings.seedLocked,
       speed: 1.0,
       pitch: 1.0,
       stability: 0.75,
       clarity: 0.75,
+      style: 0,
+      speakerBoost: true,
     });
   };
 
-  const presets = [
-    {
-      name: "Natural",
-      settings: { speed: 1.0, pitch: 1.0, stability: 0.75, clarity: 0.75 },
-      description: "Balanced, natural speech"
-    },
-    {
-      name: "Expressive",
-      settings: { speed: 0.95, pitch: 1.05, stability: 0.6, clarity: 0.8 },
-      description: "More emotional and varied"
-    },
-    {
-      name: "Professional",
-      settings: { speed: 0.9, pitch: 0.95, stability: 0.9, clarity: 0.9 },
-      description: "Clear, consistent, formal"
-    },
-    {
-      name: "Storytelling",
-      settings: { speed: 0.85, pitch: 1.1, stability: 0.65, clarity: 0.75 },
-      description: "Engaging narrative style"
-    }
-  ];
+  // Locking keeps the seed for every take; unlocked takes each get a new one
+  const toggleSeedLock = (locked: boolean) => {
+    onChange({
+      ...settings,
+      seedLocked: locked,
+      seed: locked ? settings.seed ?? randomSeed() : null,
+    });
+  };
+
+  const applyPreset = (preset: VoicePreset) => {
+    onChange({
+      ...settings,
+      ...preset.settings,
+    });
+  };
 
-  const applyPreset = (preset: typeof presets[0]) => {
+  const applyCustomPreset = (preset: CustomPreset) => {
     onChange({
       ...settings,
       ...preset.settings,
     });
   };
 
+  const startEditing = (preset: CustomPreset | null) => {
+    setEditingId(preset?.id ?? "new");
+    setDraftName(preset?.name ?? `My preset ${library.presets.filter(item => !item.workspace).length + 1}`);
+    setDraftDescription(preset?.description ?? "");
+  };
+
+  const saveDraft = (captureSettings: boolean) => {
+    const name = draftName.trim();
+    if (!name) return;
+
+    const existing = library.presets.find(preset => preset.id === editingId);
+    saveCustomPreset(existing
+      ? {
+          ...existing,
+          name,
+          description: draftDescription.trim(),
+          settings: captureSettings ? createCustomPreset(name, settings).settings : existing.settings,
+        }
+      : createCustomPreset(name, settings, draftDescription.trim()));
+    setEditingId(null);
+  };
+
+  const removePreset = (preset: CustomPreset) => {
+    if (!confirm(`Delete the "${preset.name}" preset?`)) return;
+    deleteCustomPreset(preset.id);
+    if (editingId === preset.id) setEditingId(null);
+  };
+
+  const importFile = async (file: File) => {
+    try {
+      const count = importPresets(await file.text());
+      if (count === 0) alert(`${file.name} has no presets to import.`);
+    } catch (error) {
+      console.error("Preset import failed:", error);
+      alert(`Failed to import ${file.name}: ${error instanceof Error ? error.message : "unknown error"}`);
+    }
+  };
+
+  const editingPreset = library.presets.find(preset => preset.id === editingId) ?? null;
+
   return (
     <div className="space-y-6">
       {/* Voice Parameter Controls */}
@@ -170,13 +253,121 @@ export default function AudioControls({ settings, onChange }: AudioControlsProps
             <span>Precise</span>
           </div>
         </div>
+
+        {/* Style Control */}
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label htmlFor="style" className="text-sm font-medium">
+              Style Exaggeration
+            </Label>
+            <Badge variant="outline" className="text-xs">
+              {Math.round((settings.style ?? 0) * 100)}%
+            </Badge>
+          </div>
+          <Slider
+            id="style"
+            value={[settings.style ?? 0]}
+            onValueChange={(value) => updateSetting('style', value[0])}
+            min={0.0}
+            max={1.0}
+            step={0.05}
+            className="cursor-pointer"
+          />
+          <div className="flex justify-between text-xs text-muted-foreground">
+            <span>None</span>
+            <span>Exaggerated</span>
+          </div>
+        </div>
+
+        {/* Speaker Boost */}
+        <div className="flex items-center justify-between">
+          <Label htmlFor="speaker-boost" className="text-sm font-medium">
+            Speaker Boost
+          </Label>
+          <Switch
+            id="speaker-boost"
+            checked={settings.speakerBoost ?? true}
+            onCheckedChange={(speakerBoost) => onChange({ ...settings, speakerBoost })}
+          />
+        </div>
+
+        {/* Model */}
+        <div className="space-y-2">
+          <Label className="text-sm font-medium">Model</Label>
+          <Select
+            value={model?.id}
+            onValueChange={(value) => onChange({ ...settings, model: value })}
+            disabled={provider.models.length < 2}
+          >
+            <SelectTrigger size="sm" className="w-full text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {provider.models.map((item) => (
+                <SelectItem key={item.id} value={item.id} className="text-xs">
+                  {item.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {model && <div className="text-xs text-muted-foreground">{model.description}</div>}
+        </div>
+
+        {/* Seed */}
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label htmlFor="seed" className="text-sm font-medium">
+              Seed
+            </Label>
+            <div className="flex items-center gap-2">
+              <Label htmlFor="seed-lock" className="text-xs text-muted-foreground">
+                Lock seed
+              </Label>
+              <Switch id="seed-lock" checked={settings.seedLocked ?? false} onCheckedChange={toggleSeedLock} />
+            </div>
+          </div>
+          <div className="flex gap-2">
+            <Input
+              id="seed"
+              type="number"
+              min={0}
+              max={4294967295}
+              value={settings.seedLocked ? settings.seed ?? "" : ""}
+              onChange={(e) => {
+                const seed = Number.parseInt(e.target.value, 10);
+                onChange({ ...settings, seed: Number.isNaN(seed) ? null : Math.max(0, Math.min(4294967295, seed)) });
+              }}
+              placeholder="Random for every take"
+              disabled={!settings.seedLocked}
+              className="h-8 flex-1 text-sm"
+            />
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => onChange({ ...settings, seed: randomSeed(), seedLocked: true })}
+              title="Lock a new random seed"
+              className="h-8 text-xs"
+            >
+              🎲
+            </Button>
+          </div>
+          <div className="text-xs text-muted-foreground">
+            A locked seed repeats the same take for the same text and settings.
+          </div>
+        </div>
+
+        {!provider.expressiveSettings && (
+          <div className="text-xs text-muted-foreground">
+            {provider.name} ignores style, speaker boost and seed.
+          </div>
+        )}
       </div>
 
       {/* Quick Presets */}
       <div className="space-y-3">
         <Label className="text-sm font-medium">Voice Presets</Label>
         <div className="grid grid-cols-2 gap-2">
-          {presets.map((preset) => (
+          {VOICE_PRESETS.map((preset) => (
             <Button
               key={preset.name}
               variant="outline"
@@ -193,6 +384,136 @@ export default function AudioControls({ settings, onChange }: AudioControlsProps
         </div>
       </div>
 
+      {/* Custom Presets */}
+      <div className="space-y-3">
+        <div className="flex items-center justify-between gap-2">
+          <Label className="text-sm font-medium">My Presets</Label>
+          <div className="flex gap-1">
+            <Button variant="outline" size="sm" onClick={() => startEditing(null)} className="text-xs">
+              💾 Save current
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => fileInputRef.current?.click()} className="text-xs">
+              Import
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => downloadText(exportPresets(library), "voice-presets.json", "application/json")}
+              disabled={library.presets.length === 0}
+              className="text-xs"
+            >
+              Export
+            </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".json,application/json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) importFile(file);
+                e.target.value = "";
+              }}
+            />
+          </div>
+        </div>
+
+        {editingId && (
+          <div className="space-y-2 rounded-md border p-3">
+            <Input
+              value={draftName}
+              onChange={(e) => setDraftName(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") saveDraft(!editingPreset);
+                if (e.key === "Escape") setEditingId(null);
+              }}
+              placeholder="Preset name"
+              className="h-8 text-sm"
+              autoFocus
+            />
+            <Input
+              value={draftDescription}
+              onChange={(e) => setDraftDescription(e.target.value)}
+              placeholder="Description (optional)"
+              className="h-8 text-sm"
+            />
+            <div className="text-xs text-muted-foreground">
+              {editingPreset
+                ? `Voice: ${editingPreset.settings.voice}`
+                : `Captures the ${settings.voice} voice and all of the settings above.`}
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button variant="ghost" size="sm" onClick={() => setEditingId(null)} className="text-xs">
+                Cancel
+              </Button>
+              {editingPreset && (
+                <Button variant="outline" size="sm" onClick={() => saveDraft(true)} className="text-xs">
+                  Save with current settings
+                </Button>
+              )}
+              <Button size="sm" onClick={() => saveDraft(false)} disabled={!draftName.trim()} className="text-xs">
+                Save
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {library.presets.length > 0 ? (
+          <div className="space-y-1">
+            {library.presets.map((preset) => {
+              const isDefault = library.defaultId === preset.id;
+              return (
+                <div key={preset.id} className="flex items-center gap-1">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setDefaultPreset(isDefault ? null : preset.id)}
+                    title={isDefault ? "My default in this browser; click to clear" : "Use as my default"}
+                    className="h-8 w-8 p-0"
+                  >
+                    {isDefault ? "★" : "☆"}
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => applyCustomPreset(preset)}
+                    className="h-auto flex-1 min-w-0 flex-col items-start px-3 py-2 text-left"
+                  >
+                    <div className="flex w-full items-center gap-2 text-xs font-medium">
+                      <span className="truncate">{preset.name}</span>
+                      {preset.workspace && <Badge variant="secondary" className="text-[10px]">Team</Badge>}
+                    </div>
+                    <div className="w-full truncate text-xs text-muted-foreground">
+                      {preset.settings.voice} • {preset.settings.speed.toFixed(2)}x
+                      {preset.description && ` • ${preset.description}`}
+                    </div>
+                  </Button>
+                  {!preset.workspace && (
+                    <>
+                      <Button variant="ghost" size="sm" onClick={() => startEditing(preset)} className="h-8 px-2 text-xs">
+                        Edit
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => removePreset(preset)}
+                        className="h-8 px-2 text-xs text-red-500 hover:text-red-600"
+                      >
+                        ✕
+                      </Button>
+                    </>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        ) : (
+          <div className="text-xs text-muted-foreground">
+            Save the current voice and settings as a preset to reuse or share them.
+          </div>
+        )}
+      </div>
+
       {/* Reset Button */}
       <div className="flex justify-between items-center">
         <Button
@@ -218,6 +539,8 @@ export default function AudioControls({ settings, onChange }: AudioControlsProps
             <div><strong>Pitch:</strong> Voice tone (higher/lower)</div>
             <div><strong>Stability:</strong> Consistency vs variation in delivery</div>
             <div><strong>Clarity:</strong> Balance between creativity and voice accuracy</div>
+            <div><strong>Style:</strong> Amplifies the voice&apos;s character; can cost stability</div>
+            <div><strong>Seed:</strong> Same seed, same take</div>
           </div>
         </div>
       </Card>
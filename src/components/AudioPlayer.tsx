@@ -1,11 +1,19 @@
 "use client";
 
-import { useState, useEffect, useCallback, RefObject } from "react";
+import { useState, useEffect, useCallback, useRef, RefObject } from "react";
 import { Button } from "@/components/ui/button";
 import { Slider } from "@/components/ui/slider";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { Progress } from "@/components/ui/progress";
+import DownloadMenu from "@/components/DownloadMenu";
+import Waveform from "@/components/Waveform";
+import type { WaveformData } from "@/lib/audio-utils";
+import { loadWaveform } from "@/lib/waveform";
+import type { CaptionTrack } from "@/lib/captions";
+import type { TextFormat } from "@/lib/markup";
+import type { ScriptSettings } from "@/lib/script";
+import { useShortcutBindings, useShortcuts } from "@/hooks/use-shortcuts";
+import { formatBinding } from "@/lib/shortcuts";
 
 interface VoiceSettings {
   voice: string;
@@ -20,30 +28,60 @@ interface GeneratedAudio {
   text: string;
   voice: string;
   audioUrl: string;
+  format: string;
+  size: number;
   duration: number;
   createdAt: Date;
   settings: VoiceSettings;
+  textFormat?: TextFormat;
+  script?: ScriptSettings;
+  /** Word timing for caption export */
+  captions?: CaptionTrack;
 }
 
 interface AudioPlayerProps {
   audio: GeneratedAudio;
   audioRef: RefObject<HTMLAudioElement | null>;
+  /** Continue playing from this position once loaded (hand-over from live playback) */
+  resumeFrom?: number | null;
 }
 
-export default function AudioPlayer({ audio, audioRef }: AudioPlayerProps) {
+export default function AudioPlayer({ audio, audioRef, resumeFrom }: AudioPlayerProps) {
   const [isPlaying, setIsPlaying] = useState(false);
   const [currentTime, setCurrentTime] = useState(0);
   const [volume, setVolume] = useState(0.8);
   const [playbackRate, setPlaybackRate] = useState(1);
   const [isLoading, setIsLoading] = useState(true);
+  const [waveform, setWaveform] = useState<WaveformData | null>(null);
+  const resumeFromRef = useRef<number | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setWaveform(null);
+
+    fetch(audio.audioUrl)
+      .then(response => response.blob())
+      .then(blob => loadWaveform(audio.id, blob))
+      .then(data => {
+        if (!cancelled) setWaveform(data);
+      })
+      .catch(error => console.error("Failed to build waveform:", error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [audio.id, audio.audioUrl]);
+
+  // Consumed once by the first load of each new audio
+  useEffect(() => {
+    resumeFromRef.current = resumeFrom ?? null;
+  }, [audio, resumeFrom]);
 
   // Initialize audio element
   useEffect(() => {
     if (audioRef.current && audio) {
       const audioElement = audioRef.current;
       audioElement.src = audio.audioUrl;
-      audioElement.volume = volume;
-      audioElement.playbackRate = playbackRate;
       
       setIsLoading(true);
       setCurrentTime(0);
@@ -51,6 +89,15 @@ export default function AudioPlayer({ audio, audioRef }: AudioPlayerProps) {
 
       const handleLoadedData = () => {
         setIsLoading(false);
+
+        if (resumeFromRef.current !== null) {
+          audioElement.currentTime = resumeFromRef.current;
+          setCurrentTime(resumeFromRef.current);
+          resumeFromRef.current = null;
+          audioElement.play().catch(error => {
+            console.error("Playback failed:", error);
+          });
+        }
       };
 
       const handleTimeUpdate = () => {
@@ -86,7 +133,19 @@ export default function AudioPlayer({ audio, audioRef }: AudioPlayerProps) {
     }
     
     return undefined;
-  }, [audio, audioRef, volume, playbackRate]);
+  }, [audio, audioRef]);
+
+  // Applied separately so changing them doesn't reload the track
+  useEffect(() => {
+    if (audioRef.current) audioRef.current.volume = volume;
+  }, [audioRef, volume]);
+
+  useEffect(() => {
+    if (!audioRef.current) return;
+    // The default rate survives loading a new source
+    audioRef.current.defaultPlaybackRate = playbackRate;
+    audioRef.current.playbackRate = playbackRate;
+  }, [audioRef, playbackRate]);
 
   const togglePlayPause = useCallback(() => {
     if (!audioRef.current || isLoading) return;
@@ -109,6 +168,14 @@ export default function AudioPlayer({ audio, audioRef }: AudioPlayerProps) {
     setIsPlaying(false);
   }, [audioRef]);
 
+  const seekToFraction = useCallback((fraction: number) => {
+    if (!audioRef.current || isLoading) return;
+
+    const time = fraction * audio.duration;
+    audioRef.current.currentTime = time;
+    setCurrentTime(time);
+  }, [audioRef, isLoading, audio.duration]);
+
   const seek = useCallback((newTime: number[]) => {
     if (!audioRef.current || isLoading) return;
     
@@ -117,29 +184,38 @@ export default function AudioPlayer({ audio, audioRef }: AudioPlayerProps) {
     setCurrentTime(time);
   }, [audioRef, isLoading]);
 
+  const seekBy = useCallback((seconds: number) => {
+    if (!audioRef.current || isLoading) return;
+
+    const time = Math.max(0, Math.min(audio.duration, audioRef.current.currentTime + seconds));
+    audioRef.current.currentTime = time;
+    setCurrentTime(time);
+  }, [audioRef, isLoading, audio.duration]);
+
   const changeVolume = useCallback((newVolume: number[]) => {
-    const vol = newVolume[0];
-    setVolume(vol);
-    if (audioRef.current) {
-      audioRef.current.volume = vol;
-    }
-  }, [audioRef]);
+    setVolume(Math.max(0, Math.min(1, Math.round(newVolume[0] * 100) / 100)));
+  }, []);
 
   const changePlaybackRate = useCallback((rate: number) => {
     setPlaybackRate(rate);
-    if (audioRef.current) {
-      audioRef.current.playbackRate = rate;
-    }
-  }, [audioRef]);
+  }, []);
+
+  const shortcutBindings = useShortcutBindings();
 
-  const downloadAudio = useCallback(() => {
-    const link = document.createElement('a');
-    link.href = audio.audioUrl;
-    link.download = `voice-${audio.id}.mp3`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-  }, [audio]);
+  useShortcuts({
+    playPause: togglePlayPause,
+    togglePlay: togglePlayPause,
+    seekBackward: () => seekBy(-5),
+    seekForward: () => seekBy(5),
+    rewind: () => seekBy(-10),
+    fastForward: () => seekBy(10),
+    volumeUp: () => changeVolume([volume + 0.1]),
+    volumeDown: () => changeVolume([volume - 0.1]),
+    jumpToFraction: seekToFraction,
+  });
+
+  const describeShortcut = (binding: string, label: string) =>
+    binding ? `${formatBinding(binding)} (${label})` : null;
 
   const formatTime = (time: number) => {
     const minutes = Math.floor(time / 60);
@@ -147,7 +223,7 @@ export default function AudioPlayer({ audio, audioRef }: AudioPlayerProps) {
     return `${minutes}:${seconds.toString().padStart(2, '0')}`;
   };
 
-  const progress = audio.duration > 0 ? (currentTime / audio.duration) * 100 : 0;
+  const progress = audio.duration > 0 ? currentTime / audio.duration : 0;
 
   return (
     <div className="space-y-6">
@@ -157,9 +233,14 @@ export default function AudioPlayer({ audio, audioRef }: AudioPlayerProps) {
       {/* Waveform/Progress Visualization */}
       <Card className="p-4">
         <div className="space-y-4">
-          {/* Progress Bar */}
+          {/* Waveform */}
           <div className="space-y-2">
-            <Progress value={progress} className="h-2" />
+            <Waveform
+              data={waveform}
+              progress={progress}
+              onSeek={seekToFraction}
+              disabled={isLoading}
+            />
             <div className="flex items-center justify-between text-sm text-muted-foreground">
               <span>{formatTime(currentTime)}</span>
               <span>{formatTime(audio.duration)}</span>
@@ -201,14 +282,16 @@ export default function AudioPlayer({ audio, audioRef }: AudioPlayerProps) {
           {isLoading ? "⏳" : isPlaying ? "⏸️" : "▶️"}
         </Button>
         
-        <Button
-          variant="outline"
-          size="lg"
-          onClick={downloadAudio}
-          className="w-12 h-12 rounded-full"
-        >
-          ⬇️
-        </Button>
+        <DownloadMenu audio={audio}>
+          <Button
+            variant="outline"
+            size="lg"
+            className="w-12 h-12 rounded-full"
+            title="Download"
+          >
+            ⬇️
+          </Button>
+        </DownloadMenu>
       </div>
 
       {/* Advanced Controls */}
@@ -278,7 +361,18 @@ export default function AudioPlayer({ audio, audioRef }: AudioPlayerProps) {
 
       {/* Keyboard Shortcuts Info */}
       <div className="text-xs text-muted-foreground">
-        <p><strong>Keyboard shortcuts:</strong> Space (play/pause), ← → (seek), ↑ ↓ (volume)</p>
+        <p>
+          <strong>Keyboard shortcuts:</strong>{" "}
+          {[
+            describeShortcut(shortcutBindings.playPause, "play/pause"),
+            describeShortcut(shortcutBindings.seekBackward, "back"),
+            describeShortcut(shortcutBindings.seekForward, "forward"),
+            describeShortcut(shortcutBindings.volumeUp, "louder"),
+            describeShortcut(shortcutBindings.volumeDown, "quieter"),
+            "0–9 (jump)",
+            describeShortcut(shortcutBindings.showHelp, "all shortcuts"),
+          ].filter(Boolean).join(", ")}
+        </p>
       </div>
     </div>
   );
@@ -0,0 +1,290 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useBatchQueue } from "@/hooks/use-batch-queue";
+import { downloadAudio } from "@/lib/audio-utils";
+import { createBatchZip, parseBatchFile, type BatchImport } from "@/lib/batch";
+import {
+  DEFAULT_BATCH_OPTIONS,
+  MAX_BATCH_CONCURRENCY,
+  clearBatch,
+  pauseBatch,
+  resumeBatch,
+  retryFailedRows,
+  setBatchConcurrency,
+  startBatch,
+} from "@/lib/batch-queue";
+import type { BatchRowStatus } from "@/lib/batch-store";
+
+interface VoiceSettings {
+  voice: string;
+  speed: number;
+  pitch: number;
+  stability: number;
+  clarity: number;
+  model?: string;
+  style?: number;
+  speakerBoost?: boolean;
+  seed?: number | null;
+}
+
+interface BatchGeneratorProps {
+  /** Used for every column a row leaves empty */
+  settings: VoiceSettings;
+}
+
+const TEMPLATE_CSV = [
+  "id,text,voice,speed,stability",
+  "menu-welcome,\"Welcome to Acme. For sales, press 1.\",rachel,,",
+  "menu-support,\"For support, press 2.\",,0.95,",
+  "menu-repeat,To hear these options again press star.,,,0.9",
+].join("\r\n");
+
+const STATUS_BADGES: Record<BatchRowStatus, { label: string; variant: "default" | "secondary" | "outline" | "destructive" }> = {
+  pending: { label: "Queued", variant: "outline" },
+  running: { label: "Generating", variant: "secondary" },
+  done: { label: "Done", variant: "default" },
+  failed: { label: "Failed", variant: "destructive" },
+};
+
+const CONCURRENCY_OPTIONS = Array.from({ length: MAX_BATCH_CONCURRENCY }, (_, index) => index + 1);
+
+export default function BatchGenerator({ settings }: BatchGeneratorProps) {
+  const { job, rows, running } = useBatchQueue();
+  const [pendingImport, setPendingImport] = useState<(BatchImport & { name: string }) | null>(null);
+  const [concurrency, setConcurrency] = useState(DEFAULT_BATCH_OPTIONS.concurrency);
+  const [zipping, setZipping] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const counts = rows.reduce(
+    (totals, row) => ({ ...totals, [row.status]: totals[row.status] + 1 }),
+    { pending: 0, running: 0, done: 0, failed: 0 } as Record<BatchRowStatus, number>
+  );
+  const finished = counts.done + counts.failed;
+  const unfinished = counts.pending + counts.running;
+
+  const importFile = async (file: File) => {
+    try {
+      const parsed = parseBatchFile(file.name, await file.text());
+      if (parsed.rows.length === 0 && parsed.errors.length === 0) {
+        alert(`${file.name} has no rows.`);
+        return;
+      }
+      setPendingImport({ ...parsed, name: file.name });
+    } catch (error) {
+      console.error("Batch import failed:", error);
+      alert(`Failed to import ${file.name}: ${error instanceof Error ? error.message : "unknown error"}`);
+    }
+  };
+
+  const start = async () => {
+    if (!pendingImport) return;
+    if (job && unfinished > 0 && !confirm(`Replace the unfinished "${job.name}" batch?`)) return;
+
+    try {
+      await startBatch(pendingImport.name, pendingImport.rows, settings, { ...DEFAULT_BATCH_OPTIONS, concurrency });
+      setPendingImport(null);
+    } catch (error) {
+      console.error("Failed to start batch:", error);
+      alert(`Failed to start the batch: ${error instanceof Error ? error.message : "unknown error"}`);
+    }
+  };
+
+  const downloadZip = async () => {
+    if (!job) return;
+    setZipping(true);
+    try {
+      const zip = await createBatchZip(job, rows);
+      downloadAudio(zip, `${job.name.replace(/\.[^.]+$/, "")}-voices.zip`);
+    } catch (error) {
+      console.error("Failed to build batch ZIP:", error);
+      alert(`Failed to build the ZIP: ${error instanceof Error ? error.message : "unknown error"}`);
+    } finally {
+      setZipping(false);
+    }
+  };
+
+  const clear = () => {
+    if (unfinished > 0 && !confirm("Clear the batch? Rows that haven't been generated yet are dropped.")) return;
+    clearBatch().catch(error => console.error("Failed to clear batch:", error));
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Import */}
+      <div className="flex items-center gap-2 flex-wrap">
+        <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()} className="text-xs">
+          Import CSV / JSON
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".csv,.json,text/csv,application/json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) importFile(file);
+            e.target.value = "";
+          }}
+        />
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => downloadAudio(new Blob([TEMPLATE_CSV], { type: "text/csv" }), "batch-template.csv")}
+          className="text-xs"
+        >
+          Template
+        </Button>
+        <div className="ml-auto flex items-center gap-2">
+          <Label className="text-xs text-muted-foreground">At once</Label>
+          <Select
+            value={String(job && !pendingImport ? job.concurrency : concurrency)}
+            onValueChange={(value) => {
+              setConcurrency(Number(value));
+              if (job && !pendingImport) setBatchConcurrency(Number(value));
+            }}
+          >
+            <SelectTrigger size="sm" className="h-8 w-16 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {CONCURRENCY_OPTIONS.map((value) => (
+                <SelectItem key={value} value={String(value)}>
+                  {value}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {!job && !pendingImport && (
+        <p className="text-sm text-muted-foreground">
+          Import rows with an <code>id</code> and <code>text</code> column. Optional <code>voice</code>,{" "}
+          <code>speed</code>, <code>pitch</code>, <code>stability</code>, <code>clarity</code>, <code>style</code>,{" "}
+          <code>speaker_boost</code>, <code>model</code> and <code>seed</code> columns override the current settings
+          for that row.
+        </p>
+      )}
+
+      {/* Import preview */}
+      {pendingImport && (
+        <div className="space-y-2 rounded-md border p-3">
+          <div className="text-sm">
+            <strong>{pendingImport.rows.length}</strong> rows ready from {pendingImport.name}
+            {pendingImport.errors.length > 0 && (
+              <span className="text-red-500"> • {pendingImport.errors.length} skipped</span>
+            )}
+          </div>
+          {pendingImport.errors.length > 0 && (
+            <ul className="text-xs text-red-500 space-y-0.5">
+              {pendingImport.errors.slice(0, 5).map((error) => (
+                <li key={error}>{error}</li>
+              ))}
+              {pendingImport.errors.length > 5 && <li>...and {pendingImport.errors.length - 5} more</li>}
+            </ul>
+          )}
+          <div className="text-xs text-muted-foreground">
+            Empty columns use the current voice ({settings.voice}) and settings.
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button variant="ghost" size="sm" onClick={() => setPendingImport(null)} className="text-xs">
+              Cancel
+            </Button>
+            <Button size="sm" onClick={start} disabled={pendingImport.rows.length === 0} className="text-xs">
+              Start batch
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {/* Queue */}
+      {job && (
+        <div className="space-y-3">
+          <div className="flex items-center justify-between text-sm">
+            <span className="truncate">
+              {job.name}
+              <span className="text-muted-foreground">
+                {" "}• {running ? "Running" : job.paused ? "Paused" : unfinished > 0 ? "Waiting" : "Finished"}
+              </span>
+            </span>
+            <span>{finished} / {rows.length}</span>
+          </div>
+          <Progress value={rows.length > 0 ? (finished / rows.length) * 100 : 0} />
+          <div className="flex items-center gap-2 flex-wrap text-xs">
+            <Badge variant="default">{counts.done} done</Badge>
+            {counts.failed > 0 && <Badge variant="destructive">{counts.failed} failed</Badge>}
+            {unfinished > 0 && <Badge variant="outline">{unfinished} to go</Badge>}
+            <div className="ml-auto flex gap-1">
+              {unfinished > 0 && (
+                job.paused ? (
+                  <Button variant="outline" size="sm" onClick={resumeBatch} className="text-xs">
+                    ▶ Resume
+                  </Button>
+                ) : (
+                  <Button variant="outline" size="sm" onClick={pauseBatch} className="text-xs">
+                    ⏸ Pause
+                  </Button>
+                )
+              )}
+              {counts.failed > 0 && (
+                <Button variant="outline" size="sm" onClick={retryFailedRows} className="text-xs">
+                  ↻ Retry failed
+                </Button>
+              )}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={downloadZip}
+                disabled={counts.done === 0 || zipping}
+                className="text-xs"
+              >
+                {zipping ? "Zipping..." : "⬇ ZIP"}
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={clear}
+                className="text-xs text-red-500 hover:text-red-600"
+              >
+                Clear
+              </Button>
+            </div>
+          </div>
+
+          <ScrollArea className="h-64 rounded-md border">
+            <div className="divide-y">
+              {rows.map((row) => {
+                const badge = STATUS_BADGES[row.status];
+                return (
+                  <div key={row.index} className="flex items-center gap-3 px-3 py-2 text-xs">
+                    <span className="w-24 shrink-0 truncate font-mono" title={row.id}>{row.id}</span>
+                    <span className="flex-1 min-w-0 truncate" title={row.text}>{row.text}</span>
+                    <span className="shrink-0 text-muted-foreground">{row.settings.voice}</span>
+                    <Badge variant={badge.variant} className="shrink-0 text-[10px]" title={row.error ?? undefined}>
+                      {row.status === "pending" && row.attempts > 0
+                        ? `Retry ${row.attempts + 1}/${job.maxAttempts}`
+                        : badge.label}
+                    </Badge>
+                  </div>
+                );
+              })}
+            </div>
+          </ScrollArea>
+
+          {job.paused && unfinished > 0 && (
+            <p className="text-xs text-muted-foreground">
+              Paused batches, and batches interrupted by closing the page, pick up where they left off on resume.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
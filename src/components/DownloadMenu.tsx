@@ -0,0 +1,159 @@
+"use client";
+
+import { useState, type ReactNode } from "react";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  convertAudioFormat,
+  downloadAudio,
+  getAudioExtension,
+  isExportFormatSupported,
+  type AudioExportFormat,
+  type ConvertOptions,
+} from "@/lib/audio-utils";
+import { estimateCaptionTrack, formatCaptions, type CaptionFormat, type CaptionTrack } from "@/lib/captions";
+import type { TextFormat } from "@/lib/markup";
+import type { ScriptSettings } from "@/lib/script";
+
+interface DownloadableAudio {
+  id: string;
+  text: string;
+  audioUrl: string;
+  format: string;
+  duration: number;
+  textFormat?: TextFormat;
+  script?: ScriptSettings;
+  captions?: CaptionTrack;
+}
+
+interface ExportOption {
+  label: string;
+  /** null keeps the original encoding */
+  format: AudioExportFormat | null;
+  options?: ConvertOptions;
+}
+
+const EXPORT_OPTIONS: ExportOption[] = [
+  { label: "Original", format: null },
+  { label: "WAV · 16-bit", format: "audio/wav", options: { bitDepth: 16 } },
+  { label: "WAV · 24-bit", format: "audio/wav", options: { bitDepth: 24 } },
+  { label: "WAV · 16-bit, 22 kHz", format: "audio/wav", options: { bitDepth: 16, sampleRate: 22050 } },
+  { label: "WebM (Opus)", format: "audio/webm", options: { audioBitsPerSecond: 128000 } },
+  { label: "MP4 (AAC)", format: "audio/mp4", options: { audioBitsPerSecond: 128000 } },
+];
+
+interface CaptionOption {
+  label: string;
+  format: CaptionFormat;
+  wordTimestamps?: boolean;
+}
+
+const CAPTION_OPTIONS: CaptionOption[] = [
+  { label: "SRT", format: "srt" },
+  { label: "WebVTT", format: "vtt" },
+  { label: "WebVTT · word timing", format: "vtt", wordTimestamps: true },
+];
+
+const CAPTION_TYPES: Record<CaptionFormat, string> = {
+  srt: "application/x-subrip",
+  vtt: "text/vtt",
+};
+
+interface DownloadMenuProps {
+  audio: DownloadableAudio;
+  /** Trigger element, rendered with asChild */
+  children: ReactNode;
+  align?: "start" | "center" | "end";
+}
+
+export default function DownloadMenu({ audio, children, align = "end" }: DownloadMenuProps) {
+  const [convertingLabel, setConvertingLabel] = useState<string | null>(null);
+
+  const download = async (option: ExportOption) => {
+    setConvertingLabel(option.label);
+
+    try {
+      const sourceBlob = await fetch(audio.audioUrl).then(response => response.blob());
+      const blob = option.format
+        ? await convertAudioFormat(sourceBlob, option.format, option.options)
+        : sourceBlob;
+
+      downloadAudio(blob, `voice-${audio.id}.${getAudioExtension(blob.type || audio.format)}`);
+    } catch (error) {
+      console.error("Audio export failed:", error);
+      alert(`Failed to export ${option.label}. Please try another format.`);
+    } finally {
+      setConvertingLabel(null);
+    }
+  };
+
+  // Older generations and providers without timing spread the text over the audio
+  const captionTrack = () =>
+    audio.captions ?? estimateCaptionTrack(audio.text, audio.duration, audio.textFormat, !!audio.script);
+
+  const downloadCaptions = (option: CaptionOption) => {
+    try {
+      const content = formatCaptions(captionTrack(), option.format, { wordTimestamps: option.wordTimestamps });
+      downloadAudio(new Blob([content], { type: CAPTION_TYPES[option.format] }), `voice-${audio.id}.${option.format}`);
+    } catch (error) {
+      console.error("Caption export failed:", error);
+      alert(`Failed to export ${option.label} captions.`);
+    }
+  };
+
+  const availableOptions = EXPORT_OPTIONS.filter(option =>
+    option.format === null || isExportFormatSupported(option.format)
+  );
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild onClick={(e) => e.stopPropagation()}>
+        {children}
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align={align} onClick={(e) => e.stopPropagation()}>
+        <DropdownMenuLabel className="text-xs">
+          {convertingLabel ? `Converting to ${convertingLabel}...` : "Download as"}
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {availableOptions.map((option) => (
+          <DropdownMenuItem
+            key={option.label}
+            disabled={convertingLabel !== null}
+            onSelect={(event) => {
+              // Keep the menu open so the converting state stays visible
+              event.preventDefault();
+              download(option);
+            }}
+            className="text-xs"
+          >
+            {option.label}
+            {option.format === null && (
+              <span className="ml-auto text-muted-foreground">
+                .{getAudioExtension(audio.format)}
+              </span>
+            )}
+          </DropdownMenuItem>
+        ))}
+        <DropdownMenuSeparator />
+        <DropdownMenuLabel className="text-xs">
+          Captions
+          {!audio.captions || audio.captions.estimated ? (
+            <span className="ml-1 font-normal text-muted-foreground">(estimated timing)</span>
+          ) : null}
+        </DropdownMenuLabel>
+        {CAPTION_OPTIONS.map((option) => (
+          <DropdownMenuItem key={option.label} onSelect={() => downloadCaptions(option)} className="text-xs">
+            {option.label}
+            <span className="ml-auto text-muted-foreground">.{option.format}</span>
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,100 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Button } from "@/components/ui/button";
+import { Slider } from "@/components/ui/slider";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import type { StreamingPlayback } from "@/lib/streaming-playback";
+
+interface LivePlayerProps {
+  stream: StreamingPlayback;
+}
+
+export default function LivePlayer({ stream }: LivePlayerProps) {
+  const [currentTime, setCurrentTime] = useState(0);
+  const [bufferedDuration, setBufferedDuration] = useState(0);
+  const [isPaused, setIsPaused] = useState(false);
+  const [volume, setVolume] = useState(0.8);
+
+  // Web Audio has no timeupdate event, so poll the session clock
+  useEffect(() => {
+    const interval = setInterval(() => {
+      setCurrentTime(stream.getCurrentTime());
+      setBufferedDuration(stream.getBufferedDuration());
+      setIsPaused(stream.isPaused());
+    }, 200);
+
+    return () => clearInterval(interval);
+  }, [stream]);
+
+  useEffect(() => {
+    stream.setVolume(volume);
+  }, [stream, volume]);
+
+  const togglePlayPause = useCallback(() => {
+    if (stream.isPaused()) {
+      stream.resume();
+      setIsPaused(false);
+    } else {
+      stream.pause();
+      setIsPaused(true);
+    }
+  }, [stream]);
+
+  const formatTime = (time: number) => {
+    const minutes = Math.floor(time / 60);
+    const seconds = Math.floor(time % 60);
+    return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+  };
+
+  const isWaiting = bufferedDuration === 0 || currentTime >= bufferedDuration;
+  const progress = bufferedDuration > 0 ? (currentTime / bufferedDuration) * 100 : 0;
+
+  return (
+    <div className="space-y-6">
+      <Card className="p-4">
+        <div className="space-y-2">
+          <div className="flex items-center justify-between text-sm">
+            <Badge variant="secondary" className="text-xs">
+              <span className="w-2 h-2 bg-red-500 rounded-full animate-pulse mr-1"></span>
+              Live
+            </Badge>
+            <span className="text-muted-foreground">
+              {isWaiting ? "Waiting for the next part..." : "Playing while the rest generates"}
+            </span>
+          </div>
+          <Progress value={progress} className="h-2" />
+          <div className="flex items-center justify-between text-sm text-muted-foreground">
+            <span>{formatTime(currentTime)}</span>
+            <span>{formatTime(bufferedDuration)} ready</span>
+          </div>
+        </div>
+      </Card>
+
+      <div className="flex items-center justify-center gap-4">
+        <Button
+          size="lg"
+          onClick={togglePlayPause}
+          className="w-16 h-16 rounded-full text-xl"
+        >
+          {isPaused ? "▶️" : "⏸️"}
+        </Button>
+      </div>
+
+      <div className="space-y-2">
+        <label className="text-sm font-medium flex items-center gap-2">
+          🔊 Volume: {Math.round(volume * 100)}%
+        </label>
+        <Slider
+          value={[volume]}
+          onValueChange={(value) => setVolume(value[0])}
+          max={1}
+          step={0.1}
+          className="cursor-pointer"
+        />
+      </div>
+    </div>
+  );
+}
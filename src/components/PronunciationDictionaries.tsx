@@ -0,0 +1,297 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  createDictionary,
+  createRule,
+  parsePls,
+  toPls,
+  type PronunciationDictionary,
+  type PronunciationRule,
+} from "@/lib/pronunciation";
+import { getTtsProvider } from "@/lib/tts-provider";
+
+interface PronunciationDictionariesProps {
+  dictionaries: PronunciationDictionary[];
+  onChange: (dictionaries: PronunciationDictionary[]) => void;
+}
+
+const downloadText = (text: string, filename: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([text], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+export default function PronunciationDictionaries({ dictionaries, onChange }: PronunciationDictionariesProps) {
+  const [selectedId, setSelectedId] = useState<string | null>(dictionaries[0]?.id ?? null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const provider = getTtsProvider();
+
+  const phonemeNote = provider.ssmlElements.includes("phoneme")
+    ? ""
+    : " Phonetic rules only work by reference; otherwise they are skipped, so prefer an alias.";
+
+  const selected = dictionaries.find(dictionary => dictionary.id === selectedId) ?? dictionaries[0] ?? null;
+
+  const updateDictionary = (changes: Partial<PronunciationDictionary>) => {
+    if (!selected) return;
+    onChange(dictionaries.map(dictionary =>
+      dictionary.id === selected.id ? { ...dictionary, ...changes } : dictionary
+    ));
+  };
+
+  const updateRule = (ruleId: string, changes: Partial<PronunciationRule>) => {
+    if (!selected) return;
+    updateDictionary({
+      rules: selected.rules.map(rule => (rule.id === ruleId ? { ...rule, ...changes } : rule)),
+    });
+  };
+
+  const addDictionary = (dictionary: PronunciationDictionary) => {
+    onChange([...dictionaries, dictionary]);
+    setSelectedId(dictionary.id);
+  };
+
+  const deleteDictionary = () => {
+    if (!selected) return;
+    if (!confirm(`Delete the "${selected.name}" dictionary?`)) return;
+
+    const remaining = dictionaries.filter(dictionary => dictionary.id !== selected.id);
+    onChange(remaining);
+    setSelectedId(remaining[0]?.id ?? null);
+  };
+
+  const importPls = async (file: File) => {
+    try {
+      const name = file.name.replace(/\.(pls|xml)$/i, "");
+      addDictionary(parsePls(await file.text(), name));
+    } catch (error) {
+      console.error("Failed to import pronunciation lexicon:", error);
+      alert(`Failed to import ${file.name}: ${error instanceof Error ? error.message : "unknown error"}`);
+    }
+  };
+
+  const exportPls = () => {
+    if (!selected) return;
+    downloadText(toPls(selected), `${selected.name || "dictionary"}.pls`, "application/pls+xml");
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Dictionary Picker */}
+      <div className="flex items-center gap-2 flex-wrap">
+        {selected ? (
+          <Select value={selected.id} onValueChange={setSelectedId}>
+            <SelectTrigger size="sm" className="h-8 w-[180px] text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {dictionaries.map((dictionary) => (
+                <SelectItem key={dictionary.id} value={dictionary.id}>
+                  {dictionary.name || "Untitled"}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        ) : (
+          <span className="text-sm text-muted-foreground">No dictionaries yet</span>
+        )}
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => addDictionary(createDictionary(`Dictionary ${dictionaries.length + 1}`))}
+          className="text-xs"
+        >
+          New
+        </Button>
+        <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()} className="text-xs">
+          Import .pls
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".pls,.xml,application/pls+xml"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) importPls(file);
+            e.target.value = "";
+          }}
+        />
+        {selected && (
+          <>
+            <Button variant="outline" size="sm" onClick={exportPls} className="text-xs">
+              Export .pls
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={deleteDictionary}
+              className="text-xs text-red-500 hover:text-red-600"
+            >
+              Delete
+            </Button>
+          </>
+        )}
+      </div>
+
+      {selected && (
+        <>
+          {/* Dictionary Settings */}
+          <div className="flex items-center gap-3 flex-wrap">
+            <Input
+              value={selected.name}
+              onChange={(e) => updateDictionary({ name: e.target.value })}
+              placeholder="Dictionary name"
+              className="h-8 flex-1 min-w-[140px] text-sm"
+            />
+            <Select
+              value={selected.alphabet}
+              onValueChange={(alphabet) => updateDictionary({ alphabet: alphabet as PronunciationDictionary["alphabet"] })}
+            >
+              <SelectTrigger size="sm" className="h-8 w-[100px] text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="ipa">IPA</SelectItem>
+                <SelectItem value="x-sampa">X-SAMPA</SelectItem>
+              </SelectContent>
+            </Select>
+            <div className="flex items-center gap-2">
+              <Switch
+                id="dictionary-enabled"
+                checked={selected.enabled}
+                onCheckedChange={(enabled) => updateDictionary({ enabled })}
+              />
+              <Label htmlFor="dictionary-enabled" className="text-xs">Enabled</Label>
+            </div>
+          </div>
+
+          {/* Rules */}
+          <div className="space-y-2">
+            {selected.rules.length > 0 && (
+              <div className="grid grid-cols-[1fr_90px_1fr_auto_auto_auto] items-center gap-2 text-xs text-muted-foreground">
+                <span>Word</span>
+                <span>Type</span>
+                <span>Say as</span>
+                <span title="Case sensitive">Aa</span>
+                <span title="Whole word">Word</span>
+                <span />
+              </div>
+            )}
+            {selected.rules.map((rule) => (
+              <div key={rule.id} className="grid grid-cols-[1fr_90px_1fr_auto_auto_auto] items-center gap-2">
+                <Input
+                  value={rule.word}
+                  onChange={(e) => updateRule(rule.id, { word: e.target.value })}
+                  placeholder="e.g. GIF"
+                  className="h-8 text-sm"
+                />
+                <Select
+                  value={rule.kind}
+                  onValueChange={(kind) => updateRule(rule.id, { kind: kind as PronunciationRule["kind"] })}
+                >
+                  <SelectTrigger size="sm" className="h-8 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="alias">Alias</SelectItem>
+                    <SelectItem value="phoneme">Phonetic</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Input
+                  value={rule.replacement}
+                  onChange={(e) => updateRule(rule.id, { replacement: e.target.value })}
+                  placeholder={rule.kind === "alias" ? "e.g. jif" : "e.g. dʒɪf"}
+                  className={`h-8 text-sm ${rule.kind === "phoneme" ? "font-mono" : ""}`}
+                />
+                <Checkbox
+                  checked={rule.caseSensitive}
+                  onCheckedChange={(checked) => updateRule(rule.id, { caseSensitive: checked === true })}
+                  aria-label="Case sensitive"
+                />
+                <Checkbox
+                  checked={rule.wholeWord}
+                  onCheckedChange={(checked) => updateRule(rule.id, { wholeWord: checked === true })}
+                  aria-label="Whole word"
+                />
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => updateDictionary({ rules: selected.rules.filter(item => item.id !== rule.id) })}
+                  className="h-8 w-8 p-0"
+                  title="Remove rule"
+                >
+                  🗑️
+                </Button>
+              </div>
+            ))}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => updateDictionary({ rules: [...selected.rules, createRule()] })}
+              className="text-xs"
+            >
+              + Add rule
+            </Button>
+          </div>
+
+          {/* Provider Locator */}
+          {provider.pronunciationLocators ? (
+            <div className="space-y-2">
+              <div className="flex items-center gap-2">
+                <Label className="text-xs">Uploaded dictionary</Label>
+                {selected.locator && <Badge variant="secondary" className="text-xs">Sent by reference</Badge>}
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <Input
+                  value={selected.locator?.pronunciation_dictionary_id ?? ""}
+                  onChange={(e) => updateDictionary({
+                    locator: e.target.value || selected.locator?.version_id
+                      ? { pronunciation_dictionary_id: e.target.value, version_id: selected.locator?.version_id ?? "" }
+                      : undefined,
+                  })}
+                  placeholder="Dictionary ID"
+                  className="h-8 text-xs font-mono"
+                />
+                <Input
+                  value={selected.locator?.version_id ?? ""}
+                  onChange={(e) => updateDictionary({
+                    locator: e.target.value || selected.locator?.pronunciation_dictionary_id
+                      ? { pronunciation_dictionary_id: selected.locator?.pronunciation_dictionary_id ?? "", version_id: e.target.value }
+                      : undefined,
+                  })}
+                  placeholder="Version ID"
+                  className="h-8 text-xs font-mono"
+                />
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Upload the exported .pls to {provider.name} and paste its IDs to send this dictionary by
+                reference. Without them, rules are applied to the text before sending.
+                {phonemeNote}
+              </p>
+            </div>
+          ) : (
+            <p className="text-xs text-muted-foreground">
+              {provider.name} can&apos;t reference uploaded dictionaries, so alias rules are applied to the
+              text before sending.
+              {phonemeNote}
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
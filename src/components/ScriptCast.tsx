@@ -0,0 +1,112 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import AudioControls from "@/components/AudioControls";
+import { MAX_SCRIPT_GAP_MS, type ScriptGaps, type ScriptSettings } from "@/lib/script";
+import { genderIcon } from "@/lib/voices";
+import { useVoiceCatalog } from "@/hooks/use-voice-catalog";
+
+interface ScriptCastProps {
+  speakers: string[];
+  settings: ScriptSettings;
+  onChange: (settings: ScriptSettings) => void;
+}
+
+const GAP_CONTROLS: { key: keyof ScriptGaps; label: string }[] = [
+  { key: "speakerChangeMs", label: "Gap between speakers" },
+  { key: "sameSpeakerMs", label: "Gap between lines of one speaker" },
+];
+
+export default function ScriptCast({ speakers, settings, onChange }: ScriptCastProps) {
+  const [editing, setEditing] = useState<string | null>(null);
+  const { voices } = useVoiceCatalog();
+
+  const updateSpeaker = (speaker: string, changes: Partial<ScriptSettings["cast"][string]>) => {
+    onChange({
+      ...settings,
+      cast: { ...settings.cast, [speaker]: { ...settings.cast[speaker], ...changes } },
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      {speakers.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          Start lines with a speaker name, e.g. <code>RACHEL:</code>, to add them to the cast.
+        </p>
+      ) : (
+        <div className="space-y-3">
+          {speakers.map((speaker) => {
+            const voiceSettings = settings.cast[speaker];
+            if (!voiceSettings) return null;
+
+            return (
+              <div key={speaker} className="space-y-3">
+                <div className="flex items-center gap-2">
+                  <Badge variant="outline" className="min-w-[80px] justify-center font-mono text-xs">
+                    {speaker}
+                  </Badge>
+                  <Select value={voiceSettings.voice} onValueChange={(voice) => updateSpeaker(speaker, { voice })}>
+                    <SelectTrigger size="sm" className="h-8 flex-1 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {voices.map((voice) => (
+                        <SelectItem key={voice.id} value={voice.id}>
+                          {genderIcon(voice.gender)} {voice.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    variant={editing === speaker ? "secondary" : "ghost"}
+                    size="sm"
+                    onClick={() => setEditing(editing === speaker ? null : speaker)}
+                    className="text-xs"
+                  >
+                    {editing === speaker ? "Done" : "⚙️ Settings"}
+                  </Button>
+                </div>
+                {editing === speaker && (
+                  <div className="rounded-md border p-3">
+                    <AudioControls
+                      settings={voiceSettings}
+                      onChange={(next) => updateSpeaker(speaker, next)}
+                    />
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Gaps */}
+      <div className="space-y-4 border-t pt-4">
+        {GAP_CONTROLS.map(({ key, label }) => (
+          <div key={key} className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label className="text-sm font-medium">{label}</Label>
+              <Badge variant="outline" className="text-xs">
+                {(settings.gaps[key] / 1000).toFixed(2)}s
+              </Badge>
+            </div>
+            <Slider
+              value={[settings.gaps[key]]}
+              onValueChange={([value]) => onChange({ ...settings, gaps: { ...settings.gaps, [key]: value } })}
+              min={0}
+              max={MAX_SCRIPT_GAP_MS}
+              step={50}
+              className="cursor-pointer"
+            />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
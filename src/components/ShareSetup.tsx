@@ -0,0 +1,107 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  SETUP_FILE_EXTENSION,
+  createPermalink,
+  parseSnapshot,
+  serializeSnapshot,
+  type EditorSnapshot,
+} from "@/lib/permalink";
+
+interface ShareSetupProps {
+  snapshot: EditorSnapshot;
+  onOpen: (snapshot: EditorSnapshot) => void;
+  disabled?: boolean;
+}
+
+const downloadSetup = (snapshot: EditorSnapshot) => {
+  const url = URL.createObjectURL(new Blob([serializeSnapshot(snapshot)], { type: "application/json" }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `voice-setup${SETUP_FILE_EXTENSION}`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+export default function ShareSetup({ snapshot, onOpen, disabled }: ShareSetupProps) {
+  const [status, setStatus] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const flash = (message: string) => {
+    setStatus(message);
+    setTimeout(() => setStatus(null), 2000);
+  };
+
+  const copyLink = async () => {
+    try {
+      const url = await createPermalink(snapshot);
+      if (!url) {
+        downloadSetup(snapshot);
+        alert("This text is too long for a link, so a setup file was downloaded instead. Send the file and open it with Share → Open setup file.");
+        return;
+      }
+
+      await navigator.clipboard.writeText(url);
+      flash("✓ Link copied");
+    } catch (error) {
+      console.error("Failed to create share link:", error);
+      alert(`Failed to create a share link: ${error instanceof Error ? error.message : "unknown error"}`);
+    }
+  };
+
+  const openFile = async (file: File) => {
+    try {
+      onOpen(parseSnapshot(await file.text()));
+      flash("✓ Setup opened");
+    } catch (error) {
+      console.error("Setup import failed:", error);
+      alert(`Failed to open ${file.name}: ${error instanceof Error ? error.message : "unknown error"}`);
+    }
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="lg" title="Share this setup">
+            {status ?? "🔗 Share"}
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuItem onClick={copyLink} disabled={disabled}>
+            Copy link
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => downloadSetup(snapshot)} disabled={disabled}>
+            Download setup file
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onClick={() => fileInputRef.current?.click()}>
+            Open setup file...
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept={`${SETUP_FILE_EXTENSION},.json,application/json`}
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) openFile(file);
+          e.target.value = "";
+        }}
+      />
+    </>
+  );
+}
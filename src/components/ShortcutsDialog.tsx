@@ -0,0 +1,111 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { useShortcutBindings } from "@/hooks/use-shortcuts";
+import {
+  SHORTCUT_DEFINITIONS,
+  eventToBinding,
+  formatBinding,
+  rebindShortcut,
+  resetShortcutBindings,
+  type ShortcutAction,
+} from "@/lib/shortcuts";
+
+interface ShortcutsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const GROUPS = ["Playback", "Editor", "General"] as const;
+
+export default function ShortcutsDialog({ open, onOpenChange }: ShortcutsDialogProps) {
+  const bindings = useShortcutBindings();
+  const [recording, setRecording] = useState<ShortcutAction | null>(null);
+
+  useEffect(() => {
+    if (!open) setRecording(null);
+  }, [open]);
+
+  // Capture the next key press as the new binding; Escape cancels
+  useEffect(() => {
+    if (!recording) return;
+
+    const onKeyDown = (event: KeyboardEvent) => {
+      event.preventDefault();
+      event.stopPropagation();
+
+      if (event.key === "Escape") {
+        setRecording(null);
+        return;
+      }
+
+      const binding = eventToBinding(event);
+      if (!binding) return;
+
+      rebindShortcut(recording, binding);
+      setRecording(null);
+    };
+
+    // Capture phase so the dialog's own Escape handling doesn't close it
+    window.addEventListener("keydown", onKeyDown, true);
+    return () => window.removeEventListener("keydown", onKeyDown, true);
+  }, [recording]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Keyboard shortcuts</DialogTitle>
+          <DialogDescription>
+            Shortcuts are paused while typing, except Ctrl combinations. Click a key to change it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 max-h-[60vh] overflow-y-auto">
+          {GROUPS.map((group) => (
+            <div key={group} className="space-y-1">
+              <h4 className="text-xs font-medium uppercase text-muted-foreground">{group}</h4>
+              {SHORTCUT_DEFINITIONS.filter(definition => definition.group === group).map((definition) => (
+                <div key={definition.action} className="flex items-center justify-between text-sm">
+                  <span>{definition.label}</span>
+                  <Button
+                    variant={recording === definition.action ? "default" : "outline"}
+                    size="sm"
+                    onClick={() => setRecording(definition.action)}
+                    className="min-w-24 font-mono text-xs"
+                  >
+                    {recording === definition.action
+                      ? "Press a key..."
+                      : bindings[definition.action]
+                        ? formatBinding(bindings[definition.action])
+                        : "Unbound"}
+                  </Button>
+                </div>
+              ))}
+              {group === "Playback" && (
+                <div className="flex items-center justify-between text-sm">
+                  <span>Jump to 0%–90%</span>
+                  <span className="min-w-24 text-center font-mono text-xs text-muted-foreground">0 – 9</span>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <div className="flex justify-end">
+          <Button variant="ghost" size="sm" onClick={resetShortcutBindings}>
+            Reset to defaults
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,19 +1,69 @@
 "use client";
 
-import { useState, useRef, useCallback } from "react";
+import { useState, useRef, useCallback, useMemo } from "react";
 import { Textarea } from "@/components/ui/textarea";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { parseMarkup, type TextFormat } from "@/lib/markup";
+import { parseScript } from "@/lib/script";
+import { describeSsmlDowngrades, parseSsml, type SsmlIssue } from "@/lib/ssml";
+import { getTtsProvider } from "@/lib/tts-provider";
 
 interface TextInputProps {
   value: string;
   onChange: (value: string) => void;
   placeholder?: string;
+  format?: TextFormat;
+  onFormatChange?: (format: TextFormat) => void;
+  /** Multi-speaker "NAME: line" script; lines use editor markup */
+  script?: boolean;
+  onScriptChange?: (script: boolean) => void;
 }
 
-export default function TextInput({ value, onChange, placeholder }: TextInputProps) {
+const SSML_PLACEHOLDER = '<speak>Hello <break time="500ms"/> <prosody rate="slow">world</prosody>.</speak>';
+const SCRIPT_PLACEHOLDER = "RACHEL: Welcome back to the show!\nJOSH: Thanks for having me... it's great to be here.";
+
+interface HighlightRun {
+  text: string;
+  severity: SsmlIssue["severity"] | null;
+}
+
+/**
+ * Split text into runs so issue ranges can be highlighted behind the textarea
+ */
+const toHighlightRuns = (text: string, issues: SsmlIssue[]): HighlightRun[] => {
+  const runs: HighlightRun[] = [];
+  let position = 0;
+
+  // Errors win over warnings where ranges overlap
+  const sorted = [...issues].sort((a, b) => a.start - b.start || (a.severity === "error" ? -1 : 1));
+  for (const issue of sorted) {
+    const start = Math.max(issue.start, position);
+    if (issue.end <= start) continue;
+    if (start > position) runs.push({ text: text.slice(position, start), severity: null });
+    runs.push({ text: text.slice(start, issue.end), severity: issue.severity });
+    position = issue.end;
+  }
+
+  runs.push({ text: text.slice(position), severity: null });
+  return runs;
+};
+
+export default function TextInput({
+  value,
+  onChange,
+  placeholder,
+  format = "markup",
+  onFormatChange,
+  script = false,
+  onScriptChange,
+}: TextInputProps) {
   const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const backdropRef = useRef<HTMLDivElement>(null);
   const [isExpanded, setIsExpanded] = useState(false);
+  const isSsml = format === "ssml" && !script;
 
   const insertText = useCallback((textToInsert: string) => {
     const textarea = textareaRef.current;
@@ -44,13 +94,13 @@ export default function TextInput({ value, onChange, placeholder }: TextInputPro
       let formattedText = "";
       switch (format) {
         case "emphasis":
-          formattedText = `*${selectedText}*`;
+          formattedText = isSsml ? `<emphasis>${selectedText}</emphasis>` : `*${selectedText}*`;
           break;
         case "pause":
-          formattedText = `${selectedText}...`;
+          formattedText = isSsml ? `${selectedText}<break time="500ms"/>` : `${selectedText}...`;
           break;
         case "slow":
-          formattedText = `[slow]${selectedText}[/slow]`;
+          formattedText = isSsml ? `<prosody rate="slow">${selectedText}</prosody>` : `[slow]${selectedText}[/slow]`;
           break;
         default:
           formattedText = selectedText;
@@ -64,7 +114,7 @@ export default function TextInput({ value, onChange, placeholder }: TextInputPro
         textarea.setSelectionRange(start, start + formattedText.length);
       }, 0);
     }
-  }, [value, onChange]);
+  }, [value, onChange, isSsml]);
 
   const clearText = useCallback(() => {
     onChange("");
@@ -83,6 +133,40 @@ export default function TextInput({ value, onChange, placeholder }: TextInputPro
     textareaRef.current?.focus();
   }, [onChange]);
 
+  const { issues, downgrades } = useMemo(() => {
+    if (script) {
+      const warnings = parseScript(value, getTtsProvider().ssmlElements).warnings;
+      return {
+        issues: warnings.map((warning): SsmlIssue => ({ ...warning, severity: "warning" })),
+        downgrades: [],
+      };
+    }
+
+    if (!isSsml) {
+      const warnings = parseMarkup(value, getTtsProvider().ssmlElements).warnings;
+      return {
+        issues: warnings.map((warning): SsmlIssue => ({ ...warning, severity: "warning" })),
+        downgrades: [],
+      };
+    }
+
+    const parsed = parseSsml(value);
+    return {
+      issues: parsed.issues,
+      downgrades: describeSsmlDowngrades(parsed.nodes, getTtsProvider().ssmlElements),
+    };
+  }, [value, isSsml, script]);
+
+  const highlightRuns = useMemo(() => toHighlightRuns(value, issues), [value, issues]);
+
+  const selectRange = useCallback((start: number, end: number) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+
+    textarea.focus();
+    textarea.setSelectionRange(start, end);
+  }, []);
+
   const wordCount = value.trim().split(/\s+/).filter(word => word.length > 0).length;
   const charCount = value.length;
 
@@ -97,12 +181,12 @@ export default function TextInput({ value, onChange, placeholder }: TextInputPro
             onClick={() => formatText("emphasis")}
             className="text-xs"
           >
-            *Emphasis*
+            {isSsml ? "<emphasis>" : "*Emphasis*"}
           </Button>
           <Button
             variant="outline"
             size="sm"
-            onClick={() => insertText("... ")}
+            onClick={() => insertText(isSsml ? '<break time="500ms"/> ' : "... ")}
             className="text-xs"
           >
             Add Pause
@@ -113,7 +197,7 @@ export default function TextInput({ value, onChange, placeholder }: TextInputPro
             onClick={() => formatText("slow")}
             className="text-xs"
           >
-            [Slow]
+            {isSsml ? "<prosody>" : "[Slow]"}
           </Button>
           <Button
             variant="outline"
@@ -126,6 +210,31 @@ export default function TextInput({ value, onChange, placeholder }: TextInputPro
         </div>
         
         <div className="flex items-center gap-2">
+          {onScriptChange && (
+            <div className="flex items-center gap-2">
+              <Switch
+                id="script-mode"
+                checked={script}
+                onCheckedChange={onScriptChange}
+              />
+              <Label htmlFor="script-mode" className="text-xs">
+                Script
+              </Label>
+            </div>
+          )}
+          {onFormatChange && (
+            <div className="flex items-center gap-2 mr-2">
+              <Switch
+                id="ssml-mode"
+                checked={isSsml}
+                disabled={script}
+                onCheckedChange={(checked) => onFormatChange(checked ? "ssml" : "markup")}
+              />
+              <Label htmlFor="ssml-mode" className="text-xs">
+                SSML
+              </Label>
+            </div>
+          )}
           <Button
             variant="ghost"
             size="sm"
@@ -147,12 +256,40 @@ export default function TextInput({ value, onChange, placeholder }: TextInputPro
 
       {/* Text Area */}
       <div className="relative">
+        {/* Issue highlights, drawn behind the transparent textarea */}
+        <div
+          ref={backdropRef}
+          aria-hidden
+          className={`absolute inset-0 overflow-hidden whitespace-pre-wrap break-words rounded-md border border-transparent px-3 py-2 text-base md:text-sm text-transparent pointer-events-none ${isSsml ? "font-mono" : ""}`}
+        >
+          {highlightRuns.map((run, index) =>
+            run.severity ? (
+              <mark
+                key={index}
+                className={`rounded-sm text-transparent underline decoration-wavy ${
+                  run.severity === "error"
+                    ? "bg-red-500/20 decoration-red-500"
+                    : "bg-yellow-500/20 decoration-yellow-500"
+                }`}
+              >
+                {run.text}
+              </mark>
+            ) : (
+              <span key={index}>{run.text}</span>
+            )
+          )}
+        </div>
         <Textarea
           ref={textareaRef}
           value={value}
           onChange={(e) => onChange(e.target.value)}
-          placeholder={placeholder}
-          className={`resize-none transition-all duration-300 ${
+          onScroll={(e) => {
+            if (backdropRef.current) backdropRef.current.scrollTop = e.currentTarget.scrollTop;
+          }}
+          placeholder={script ? SCRIPT_PLACEHOLDER : isSsml ? SSML_PLACEHOLDER : placeholder}
+          spellCheck={!isSsml}
+          aria-invalid={issues.some(issue => issue.severity === "error")}
+          className={`relative resize-none transition-all duration-300 ${isSsml ? "font-mono" : ""} ${
             isExpanded ? "min-h-[300px]" : "min-h-[150px]"
           }`}
         />
@@ -168,15 +305,66 @@ export default function TextInput({ value, onChange, placeholder }: TextInputPro
         </div>
       </div>
 
+      {/* Markup Issues */}
+      {issues.length > 0 && (
+        <div className={`rounded-md border p-3 text-xs space-y-1 ${
+          issues.some(issue => issue.severity === "error")
+            ? "border-red-500/50 bg-red-500/10"
+            : "border-yellow-500/50 bg-yellow-500/10"
+        }`}>
+          {issues.map((issue) => (
+            <button
+              key={`${issue.start}-${issue.message}`}
+              type="button"
+              onClick={() => selectRange(issue.start, issue.end)}
+              className="block w-full text-left hover:underline"
+            >
+              {issue.severity === "error" ? "❌" : "⚠️"} {issue.message}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {/* Elements the current provider can't render */}
+      {downgrades.length > 0 && (
+        <div className="text-xs text-muted-foreground space-y-0.5">
+          <p><strong>Not supported by {getTtsProvider().name}:</strong></p>
+          {downgrades.map(({ element, note }) => (
+            <p key={element} className="ml-2">
+              <code>&lt;{element}&gt;</code> {note}
+            </p>
+          ))}
+        </div>
+      )}
+
       {/* Tips */}
       <div className="text-xs text-muted-foreground space-y-1">
         <p><strong>Tips:</strong></p>
-        <ul className="list-disc list-inside space-y-0.5 ml-2">
-          <li>Use *text* for emphasis and natural speech patterns</li>
-          <li>Add commas and periods for natural pauses</li>
-          <li>Select text and use formatting buttons for advanced control</li>
-          <li>Longer texts may take more time to generate</li>
-        </ul>
+        {script ? (
+          <ul className="list-disc list-inside space-y-0.5 ml-2">
+            <li>Start each line with a speaker name in capitals, e.g. RACHEL: Hello!</li>
+            <li>Lines without a name continue the previous speaker</li>
+            <li>A blank line starts a new line for the same speaker</li>
+            <li>Choose each speaker&apos;s voice and settings under Cast</li>
+            <li>*Emphasis*, ... pauses and [slow] work inside lines</li>
+          </ul>
+        ) : isSsml ? (
+          <ul className="list-disc list-inside space-y-0.5 ml-2">
+            <li>Supported: &lt;break&gt;, &lt;prosody&gt;, &lt;say-as&gt;, &lt;phoneme&gt;, &lt;emphasis&gt;, &lt;sub&gt;, &lt;p&gt;, &lt;s&gt;</li>
+            <li>The &lt;speak&gt; wrapper is optional</li>
+            <li>Escape literal &amp; and &lt; as &amp;amp; and &amp;lt;</li>
+            <li>Generation is blocked until errors are fixed</li>
+          </ul>
+        ) : (
+          <ul className="list-disc list-inside space-y-0.5 ml-2">
+            <li>Use *text* for emphasis and natural speech patterns</li>
+            <li>Add ... for a pause; each extra dot makes it longer</li>
+            <li>Wrap text in [slow]...[/slow] to speak it more slowly</li>
+            <li>Add commas and periods for natural pauses</li>
+            <li>Select text and use formatting buttons for advanced control</li>
+            <li>Longer texts may take more time to generate</li>
+          </ul>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,149 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { TextFormat } from "@/lib/markup";
+import {
+  NORMALIZATION_RULES,
+  NORMALIZER_LOCALES,
+  normalizeTextWithChanges,
+  type NormalizationChange,
+  type NormalizationRuleId,
+  type NormalizerLocale,
+  type NormalizerOptions,
+} from "@/lib/text-normalizer";
+
+interface TextNormalizationProps {
+  text: string;
+  format: TextFormat;
+  options: NormalizerOptions;
+  onChange: (options: NormalizerOptions) => void;
+}
+
+type PreviewRun =
+  | { type: "text"; text: string }
+  | { type: "change"; change: NormalizationChange };
+
+// SSML tags and entities are resolved before normalization at generation time
+const MARKUP_PATTERN = /<[^>]*>|&(?:[a-z]+|#\d+|#x[0-9a-f]+);/gi;
+
+const previewChanges = (text: string, format: TextFormat, options: NormalizerOptions): NormalizationChange[] => {
+  const { changes } = normalizeTextWithChanges(text, options);
+  if (format !== "ssml") return changes;
+
+  const markup = Array.from(text.matchAll(MARKUP_PATTERN), match => [match.index!, match.index! + match[0].length]);
+  return changes.filter(change => !markup.some(([start, end]) => change.start < end && change.end > start));
+};
+
+const toPreviewRuns = (text: string, changes: NormalizationChange[]): PreviewRun[] => {
+  const runs: PreviewRun[] = [];
+  let position = 0;
+
+  for (const change of changes) {
+    if (change.start > position) runs.push({ type: "text", text: text.slice(position, change.start) });
+    runs.push({ type: "change", change });
+    position = change.end;
+  }
+  if (position < text.length) runs.push({ type: "text", text: text.slice(position) });
+
+  return runs;
+};
+
+export default function TextNormalization({ text, format, options, onChange }: TextNormalizationProps) {
+  const [showPreview, setShowPreview] = useState(false);
+
+  const changes = useMemo(() => previewChanges(text, format, options), [text, format, options]);
+  const runs = useMemo(() => toPreviewRuns(text, changes), [text, changes]);
+
+  const toggleRule = (id: NormalizationRuleId, enabled: boolean) => {
+    onChange({ ...options, rules: { ...options.rules, [id]: enabled } });
+  };
+
+  return (
+    <div className="space-y-3 rounded-md border p-3">
+      {/* Master Toggle and Locale */}
+      <div className="flex items-center justify-between gap-3 flex-wrap">
+        <div className="flex items-center gap-2">
+          <Switch
+            id="normalize-text"
+            checked={options.enabled}
+            onCheckedChange={(enabled) => onChange({ ...options, enabled })}
+          />
+          <Label htmlFor="normalize-text" className="text-sm">Read numbers and symbols naturally</Label>
+          {options.enabled && changes.length > 0 && (
+            <Badge variant="secondary" className="text-xs">
+              {changes.length} {changes.length === 1 ? "change" : "changes"}
+            </Badge>
+          )}
+        </div>
+        <Select
+          value={options.locale}
+          onValueChange={(locale) => onChange({ ...options, locale: locale as NormalizerLocale })}
+          disabled={!options.enabled}
+        >
+          <SelectTrigger size="sm" className="h-8 w-[160px] text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {NORMALIZER_LOCALES.map((locale) => (
+              <SelectItem key={locale.id} value={locale.id}>
+                {locale.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {options.enabled && (
+        <>
+          {/* Rule Toggles */}
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+            {NORMALIZATION_RULES.map((rule) => (
+              <div key={rule.id} className="flex items-center gap-2">
+                <Checkbox
+                  id={`normalize-${rule.id}`}
+                  checked={options.rules[rule.id]}
+                  onCheckedChange={(checked) => toggleRule(rule.id, checked === true)}
+                />
+                <Label htmlFor={`normalize-${rule.id}`} className="text-xs font-normal" title={`e.g. ${rule.example}`}>
+                  {rule.label}
+                </Label>
+              </div>
+            ))}
+          </div>
+
+          {/* Preview Diff */}
+          <Collapsible open={showPreview} onOpenChange={setShowPreview}>
+            <CollapsibleTrigger asChild>
+              <Button variant="ghost" size="sm" className="text-xs" disabled={changes.length === 0}>
+                {showPreview ? "Hide preview" : "Preview changes"}
+              </Button>
+            </CollapsibleTrigger>
+            <CollapsibleContent>
+              <div className="mt-2 max-h-60 overflow-y-auto rounded-md bg-muted/50 p-3 text-sm whitespace-pre-wrap break-words">
+                {runs.map((run, index) =>
+                  run.type === "text" ? (
+                    <span key={index}>{run.text}</span>
+                  ) : (
+                    <span key={index} title={NORMALIZATION_RULES.find(rule => rule.id === run.change.rule)?.label}>
+                      <del className="text-red-600 dark:text-red-400">{run.change.original}</del>
+                      <ins className="no-underline text-green-700 dark:text-green-400 bg-green-500/10 rounded-sm">
+                        {run.change.replacement}
+                      </ins>
+                    </span>
+                  )
+                )}
+              </div>
+            </CollapsibleContent>
+          </Collapsible>
+        </>
+      )}
+    </div>
+  );
+}
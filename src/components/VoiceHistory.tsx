@@ -1,9 +1,45 @@
 "use client";
 
+import { useState, useEffect, useMemo } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import DownloadMenu from "@/components/DownloadMenu";
+import { formatBytes, getAudioExtension } from "@/lib/audio-utils";
+import {
+  DEFAULT_HISTORY_FILTERS,
+  filterHistory,
+  hasActiveFilters,
+  historyItemVoices,
+  type HistoryFilters,
+  type HistorySort,
+} from "@/lib/history-filter";
+import { mergePresets } from "@/lib/voice-presets";
+import { usePresetLibrary } from "@/hooks/use-voice-presets";
+import type { CaptionTrack } from "@/lib/captions";
+import type { TextFormat } from "@/lib/markup";
+import type { ScriptSettings } from "@/lib/script";
 
 interface VoiceSettings {
   voice: string;
@@ -11,6 +47,10 @@ interface VoiceSettings {
   pitch: number;
   stability: number;
   clarity: number;
+  model?: string;
+  style?: number;
+  speakerBoost?: boolean;
+  seed?: number | null;
 }
 
 interface GeneratedAudio {
@@ -18,18 +58,87 @@ interface GeneratedAudio {
   text: string;
   voice: string;
   audioUrl: string;
+  format: string;
+  size: number;
   duration: number;
   createdAt: Date;
   settings: VoiceSettings;
+  textFormat?: TextFormat;
+  script?: ScriptSettings;
+  /** Word timing for caption export */
+  captions?: CaptionTrack;
+}
+
+interface StorageUsage {
+  usedBytes: number;
+  quotaBytes: number;
 }
 
 interface VoiceHistoryProps {
   history: GeneratedAudio[];
   onSelect: (audio: GeneratedAudio) => void;
   currentAudio: GeneratedAudio | null;
+  usage?: StorageUsage | null;
+  onDelete: (audioIds: string[]) => void;
+  onClear: () => void;
+  onLoad: (audio: GeneratedAudio) => void;
+  onRegenerate: (audio: GeneratedAudio, withNewSeed: boolean) => void;
+  isGenerating?: boolean;
 }
 
-export default function VoiceHistory({ history, onSelect, currentAudio }: VoiceHistoryProps) {
+interface PendingConfirmation {
+  title: string;
+  description: string;
+  confirm: () => void;
+}
+
+export default function VoiceHistory({
+  history,
+  onSelect,
+  currentAudio,
+  usage,
+  onDelete,
+  onClear,
+  onLoad,
+  onRegenerate,
+  isGenerating = false,
+}: VoiceHistoryProps) {
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [pendingConfirmation, setPendingConfirmation] = useState<PendingConfirmation | null>(null);
+  const [filters, setFilters] = useState<HistoryFilters>(DEFAULT_HISTORY_FILTERS);
+  const [sort, setSort] = useState<HistorySort>("newest");
+  const [showFilters, setShowFilters] = useState(false);
+  const presetLibrary = usePresetLibrary();
+  const presets = useMemo(() => mergePresets(presetLibrary), [presetLibrary]);
+
+  const visibleHistory = useMemo(
+    () => filterHistory(history, filters, sort, presets),
+    [history, filters, sort, presets]
+  );
+
+  // Drop selections for items that no longer exist or are filtered out, so
+  // bulk actions never reach items the user can't see
+  useEffect(() => {
+    setSelectedIds(prev => {
+      const next = new Set(visibleHistory.filter(audio => prev.has(audio.id)).map(audio => audio.id));
+      return next.size === prev.size ? prev : next;
+    });
+  }, [visibleHistory]);
+  const historyVoices = useMemo(
+    () => Array.from(new Set(history.flatMap(audio => historyItemVoices(audio.voice)))).sort(),
+    [history]
+  );
+  const filtersActive = hasActiveFilters(filters);
+
+  const selectedAudio = visibleHistory.filter(audio => selectedIds.has(audio.id));
+  const allSelected = visibleHistory.length > 0 && visibleHistory.every(audio => selectedIds.has(audio.id));
+
+  const updateFilter = <K extends keyof HistoryFilters>(key: K, value: HistoryFilters[K]) => {
+    setFilters(prev => ({ ...prev, [key]: value }));
+  };
+
+  const parseDurationInput = (value: string) => (value.trim() === "" ? null : Math.max(0, Number(value)));
+
   const formatTime = (time: number) => {
     const minutes = Math.floor(time / 60);
     const seconds = Math.floor(time % 60);
@@ -49,12 +158,10 @@ export default function VoiceHistory({ history, onSelect, currentAudio }: VoiceH
     return date.toLocaleDateString();
   };
 
-  const downloadAudio = (audio: GeneratedAudio, event: React.MouseEvent) => {
-    event.stopPropagation(); // Prevent selection
-    
+  const downloadAudio = (audio: GeneratedAudio) => {
     const link = document.createElement('a');
     link.href = audio.audioUrl;
-    link.download = `voice-${audio.id}.mp3`;
+    link.download = `voice-${audio.id}.${getAudioExtension(audio.format)}`;
     document.body.appendChild(link);
     link.click();
     document.body.removeChild(link);
@@ -62,13 +169,53 @@ export default function VoiceHistory({ history, onSelect, currentAudio }: VoiceH
 
   const deleteFromHistory = (audioId: string, event: React.MouseEvent) => {
     event.stopPropagation(); // Prevent selection
-    
-    // In a real app, you'd want to update the parent state
-    // For now, we'll just revoke the URL to free memory
-    const audio = history.find(a => a.id === audioId);
-    if (audio) {
-      URL.revokeObjectURL(audio.audioUrl);
-    }
+    onDelete([audioId]);
+  };
+
+  const toggleSelected = (audioId: string, checked: boolean) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (checked) {
+        next.add(audioId);
+      } else {
+        next.delete(audioId);
+      }
+      return next;
+    });
+  };
+
+  const toggleSelectAll = (checked: boolean) => {
+    setSelectedIds(checked ? new Set(visibleHistory.map(audio => audio.id)) : new Set());
+  };
+
+  const downloadSelected = () => {
+    // Browsers drop rapid-fire downloads, so space them out
+    selectedAudio.forEach((audio, index) => {
+      setTimeout(() => downloadAudio(audio), index * 300);
+    });
+  };
+
+  const confirmDeleteSelected = () => {
+    const ids = selectedAudio.map(audio => audio.id);
+    setPendingConfirmation({
+      title: `Delete ${ids.length} ${ids.length === 1 ? "voice" : "voices"}?`,
+      description: "The selected generations will be permanently removed from this browser.",
+      confirm: () => {
+        onDelete(ids);
+        setSelectedIds(new Set());
+      },
+    });
+  };
+
+  const confirmClearAll = () => {
+    setPendingConfirmation({
+      title: "Clear all history?",
+      description: `All ${history.length} saved generations will be permanently removed from this browser.`,
+      confirm: () => {
+        onClear();
+        setSelectedIds(new Set());
+      },
+    });
   };
 
   if (history.length === 0) {
@@ -94,16 +241,182 @@ export default function VoiceHistory({ history, onSelect, currentAudio }: VoiceH
       <CardHeader>
         <CardTitle className="flex items-center justify-between">
           <span>Voice History</span>
-          <Badge variant="secondary" className="text-xs">
-            {history.length}/10
+          <Badge variant="secondary" className="text-xs" title={`${history.length} saved`}>
+            {usage
+              ? `${formatBytes(usage.usedBytes)} / ${formatBytes(usage.quotaBytes)}`
+              : history.length}
           </Badge>
         </CardTitle>
         <CardDescription>Click to replay previous generations</CardDescription>
       </CardHeader>
+      {/* Search & Filters */}
+      <div className="space-y-2 px-6 pb-2">
+        <div className="flex items-center gap-2">
+          <Input
+            value={filters.query}
+            onChange={(e) => updateFilter("query", e.target.value)}
+            placeholder="Search text..."
+            className="h-8 text-xs"
+          />
+          <Select value={sort} onValueChange={(value) => setSort(value as HistorySort)}>
+            <SelectTrigger size="sm" className="h-8 w-[110px] text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="newest">Newest</SelectItem>
+              <SelectItem value="oldest">Oldest</SelectItem>
+              <SelectItem value="longest">Longest</SelectItem>
+              <SelectItem value="shortest">Shortest</SelectItem>
+              <SelectItem value="voice">Voice</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button
+            variant={showFilters || filtersActive ? "secondary" : "ghost"}
+            size="sm"
+            onClick={() => setShowFilters(!showFilters)}
+            className="h-8 text-xs"
+          >
+            Filters
+          </Button>
+        </div>
+
+        {showFilters && (
+          <div className="grid grid-cols-2 gap-2 rounded-lg border p-3">
+            <div className="space-y-1">
+              <Label className="text-xs">Voice</Label>
+              <Select value={filters.voice} onValueChange={(value) => updateFilter("voice", value)}>
+                <SelectTrigger size="sm" className="h-8 w-full text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All voices</SelectItem>
+                  {historyVoices.map((voice) => (
+                    <SelectItem key={voice} value={voice}>{voice}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Preset</Label>
+              <Select value={filters.preset} onValueChange={(value) => updateFilter("preset", value)}>
+                <SelectTrigger size="sm" className="h-8 w-full text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Any settings</SelectItem>
+                  {presets.map((preset) => (
+                    <SelectItem key={preset.name} value={preset.name}>{preset.name}</SelectItem>
+                  ))}
+                  <SelectItem value="custom">Custom</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">From</Label>
+              <Input
+                type="date"
+                value={filters.dateFrom}
+                onChange={(e) => updateFilter("dateFrom", e.target.value)}
+                className="h-8 text-xs"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">To</Label>
+              <Input
+                type="date"
+                value={filters.dateTo}
+                onChange={(e) => updateFilter("dateTo", e.target.value)}
+                className="h-8 text-xs"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Min duration (s)</Label>
+              <Input
+                type="number"
+                min={0}
+                value={filters.minDuration ?? ""}
+                onChange={(e) => updateFilter("minDuration", parseDurationInput(e.target.value))}
+                className="h-8 text-xs"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Max duration (s)</Label>
+              <Input
+                type="number"
+                min={0}
+                value={filters.maxDuration ?? ""}
+                onChange={(e) => updateFilter("maxDuration", parseDurationInput(e.target.value))}
+                className="h-8 text-xs"
+              />
+            </div>
+            {filtersActive && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setFilters(DEFAULT_HISTORY_FILTERS)}
+                className="col-span-2 h-7 text-xs"
+              >
+                Reset filters
+              </Button>
+            )}
+          </div>
+        )}
+
+        {filtersActive && (
+          <p className="text-xs text-muted-foreground">
+            Showing {visibleHistory.length} of {history.length}
+          </p>
+        )}
+      </div>
+
+      {/* Bulk Actions */}
+      <div className="flex items-center justify-between gap-2 px-6 pb-2">
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id="select-all-history"
+            checked={allSelected ? true : selectedAudio.length > 0 ? "indeterminate" : false}
+            onCheckedChange={(checked) => toggleSelectAll(checked === true)}
+          />
+          <label htmlFor="select-all-history" className="text-xs text-muted-foreground">
+            {selectedAudio.length > 0 ? `${selectedAudio.length} selected` : "Select all"}
+          </label>
+        </div>
+        <div className="flex items-center gap-1">
+          {selectedAudio.length > 0 ? (
+            <>
+              <Button variant="outline" size="sm" onClick={downloadSelected} className="h-7 text-xs">
+                ⬇️ Download
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={confirmDeleteSelected}
+                className="h-7 text-xs text-red-500 hover:text-red-600"
+              >
+                🗑️ Delete
+              </Button>
+            </>
+          ) : (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={confirmClearAll}
+              className="h-7 text-xs text-red-500 hover:text-red-600"
+            >
+              Clear all
+            </Button>
+          )}
+        </div>
+      </div>
       <CardContent className="p-0">
         <ScrollArea className="h-[400px]">
           <div className="space-y-2 p-4">
-            {history.map((audio, index) => (
+            {visibleHistory.length === 0 && (
+              <p className="text-center py-8 text-sm text-muted-foreground">
+                No generations match your search
+              </p>
+            )}
+            {visibleHistory.map((audio) => (
               <div
                 key={audio.id}
                 onClick={() => onSelect(audio)}
@@ -117,8 +430,14 @@ export default function VoiceHistory({ history, onSelect, currentAudio }: VoiceH
                   {/* Header */}
                   <div className="flex items-start justify-between">
                     <div className="flex items-center gap-2">
+                      <Checkbox
+                        checked={selectedIds.has(audio.id)}
+                        onCheckedChange={(checked) => toggleSelected(audio.id, checked === true)}
+                        onClick={(e) => e.stopPropagation()}
+                        aria-label="Select generation"
+                      />
                       <Badge variant="outline" className="text-xs">
-                        {index === 0 ? '🆕' : '🎵'} {audio.voice}
+                        {audio.id === history[0]?.id ? '🆕' : '🎵'} {audio.voice}
                       </Badge>
                       <span className="text-xs text-muted-foreground">
                         {formatTime(audio.duration)}
@@ -129,12 +448,47 @@ export default function VoiceHistory({ history, onSelect, currentAudio }: VoiceH
                       <Button
                         variant="ghost"
                         size="sm"
-                        onClick={(e) => downloadAudio(audio, e)}
+                        onClick={(e) => {
+                          e.stopPropagation(); // Prevent selection
+                          onLoad(audio);
+                        }}
                         className="h-6 w-6 p-0 text-xs"
-                        title="Download"
+                        title="Load into editor"
                       >
-                        ⬇️
+                        📝
                       </Button>
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={(e) => e.stopPropagation()}
+                            disabled={isGenerating}
+                            className="h-6 w-6 p-0 text-xs"
+                            title="Regenerate"
+                          >
+                            🔁
+                          </Button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent align="end" onClick={(e) => e.stopPropagation()}>
+                          <DropdownMenuItem onSelect={() => onRegenerate(audio, false)}>
+                            Regenerate
+                          </DropdownMenuItem>
+                          <DropdownMenuItem onSelect={() => onRegenerate(audio, true)}>
+                            Regenerate with new seed
+                          </DropdownMenuItem>
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+                      <DownloadMenu audio={audio}>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-6 w-6 p-0 text-xs"
+                          title="Download"
+                        >
+                          ⬇️
+                        </Button>
+                      </DownloadMenu>
                       <Button
                         variant="ghost"
                         size="sm"
@@ -159,6 +513,12 @@ export default function VoiceHistory({ history, onSelect, currentAudio }: VoiceH
                       <span>Speed: {audio.settings.speed}x</span>
                       <span>•</span>
                       <span>Pitch: {audio.settings.pitch}</span>
+                      {typeof audio.settings.seed === "number" && (
+                        <>
+                          <span>•</span>
+                          <span title={audio.settings.model}>Seed: {audio.settings.seed}</span>
+                        </>
+                      )}
                     </div>
                   </div>
                 </div>
@@ -175,6 +535,27 @@ export default function VoiceHistory({ history, onSelect, currentAudio }: VoiceH
           </div>
         </ScrollArea>
       </CardContent>
+
+      <AlertDialog
+        open={pendingConfirmation !== null}
+        onOpenChange={(open) => !open && setPendingConfirmation(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{pendingConfirmation?.title}</AlertDialogTitle>
+            <AlertDialogDescription>{pendingConfirmation?.description}</AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => pendingConfirmation?.confirm()}
+              className="bg-red-600 text-white hover:bg-red-700"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </Card>
   );
 }
\ No newline at end of file
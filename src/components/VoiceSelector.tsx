@@ -4,176 +4,185 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { useState } from "react";
+import { Input } from "@/components/ui/input";
+import { useEffect, useMemo, useState } from "react";
+import type { TextFormat } from "@/lib/markup";
+import { getTtsProvider } from "@/lib/tts-provider";
+import { refreshVoiceCatalog } from "@/lib/voice-catalog";
+import {
+  DEFAULT_VOICE_FILTERS,
+  filterVoices,
+  genderIcon,
+  getVoiceFacets,
+  languageName,
+  type Voice,
+  type VoiceFilters,
+} from "@/lib/voices";
+import {
+  STOCK_PREVIEW_TEXT,
+  firstSentence,
+  isPreviewCached,
+  playPreviews,
+  stopPreview,
+  type PreviewTextSource,
+} from "@/lib/voice-preview";
+import { useVoiceCatalog } from "@/hooks/use-voice-catalog";
+import { usePreviewState } from "@/hooks/use-voice-preview";
 
-interface Voice {
-  id: string;
-  name: string;
-  gender: "male" | "female";
-  accent: string;
-  description: string;
-  sample?: string;
-  premium?: boolean;
+interface VoiceSettings {
+  voice: string;
+  speed: number;
+  pitch: number;
+  stability: number;
+  clarity: number;
+  model?: string;
+  style?: number;
+  speakerBoost?: boolean;
+  seed?: number | null;
 }
 
-const voices: Voice[] = [
-  {
-    id: "rachel",
-    name: "Rachel",
-    gender: "female",
-    accent: "American",
-    description: "Warm, professional voice perfect for narrations",
-  },
-  {
-    id: "domi",
-    name: "Domi",
-    gender: "female",
-    accent: "American",
-    description: "Strong, confident voice with clear articulation",
-  },
-  {
-    id: "bella",
-    name: "Bella",
-    gender: "female",
-    accent: "American",
-    description: "Soft, gentle voice ideal for storytelling",
-  },
-  {
-    id: "antoni",
-    name: "Antoni",
-    gender: "male",
-    accent: "American",
-    description: "Deep, authoritative voice for professional content",
-  },
-  {
-    id: "elli",
-    name: "Elli",
-    gender: "female",
-    accent: "American",
-    description: "Young, energetic voice with natural flow",
-  },
-  {
-    id: "josh",
-    name: "Josh",
-    gender: "male",
-    accent: "American",
-    description: "Friendly, conversational voice for casual content",
-  },
-  {
-    id: "arnold",
-    name: "Arnold",
-    gender: "male",
-    accent: "American",
-    description: "Mature, distinguished voice for formal presentations",
-  },
-  {
-    id: "adam",
-    name: "Adam",
-    gender: "male",
-    accent: "American",
-    description: "Clear, reliable voice for educational content",
-  },
-  {
-    id: "sam",
-    name: "Sam",
-    gender: "male",
-    accent: "American",
-    description: "Versatile voice suitable for various content types",
-  }
-];
-
 interface VoiceSelectorProps {
   value: string;
   onChange: (value: string) => void;
+  /** Current voice controls; previews use them */
+  settings?: VoiceSettings;
+  /** Editor contents, so previews can read its first sentence */
+  editorText?: string;
+  editorFormat?: TextFormat;
 }
 
-export default function VoiceSelector({ value, onChange }: VoiceSelectorProps) {
-  const [previewingVoice, setPreviewingVoice] = useState<string | null>(null);
-  
-  const selectedVoice = voices.find(voice => voice.id === value);
+const DEFAULT_PREVIEW_SETTINGS: Omit<VoiceSettings, "voice"> = {
+  speed: 1.0,
+  pitch: 1.0,
+  stability: 0.75,
+  clarity: 0.75,
+};
+
+const CATALOG_LABELS = {
+  provider: "Live catalog",
+  cache: "Cached catalog",
+  bundled: "Built-in voices",
+};
+
+export default function VoiceSelector({
+  value,
+  onChange,
+  settings,
+  editorText = "",
+  editorFormat = "markup",
+}: VoiceSelectorProps) {
+  const [previewSource, setPreviewSource] = useState<PreviewTextSource>("stock");
+  const [compareVoiceId, setCompareVoiceId] = useState<string | null>(null);
+  const [filters, setFilters] = useState<VoiceFilters>(DEFAULT_VOICE_FILTERS);
+  const catalog = useVoiceCatalog();
+
+  const facets = useMemo(() => getVoiceFacets(catalog.voices), [catalog.voices]);
+  const filteredVoices = useMemo(() => filterVoices(catalog.voices, filters), [catalog.voices, filters]);
+  const selectedVoice = catalog.voices.find(voice => voice.id === value);
+  const isFiltered = JSON.stringify(filters) !== JSON.stringify(DEFAULT_VOICE_FILTERS);
+
+  const updateFilter = (key: keyof VoiceFilters, filterValue: string) => {
+    setFilters(prev => ({ ...prev, [key]: filterValue }));
+  };
+
+  const preview = usePreviewState();
+  const editorSentence = useMemo(() => firstSentence(editorText, editorFormat), [editorText, editorFormat]);
+  const compareVoice = catalog.voices.find(voice => voice.id === compareVoiceId && voice.id !== value);
+
+  // Catalog samples only exist for some voices; fall back to the stock text
+  const source = previewSource === "editor" && !editorSentence
+    ? "stock"
+    : previewSource === "catalog" && !selectedVoice?.sample
+      ? "stock"
+      : previewSource;
+  const previewText = source === "editor" ? editorSentence : STOCK_PREVIEW_TEXT;
+  const previewSettings = (voice: Voice): VoiceSettings => ({ ...DEFAULT_PREVIEW_SETTINGS, ...settings, voice: voice.id });
+
+  const previewItem = (voice: Voice) => ({
+    settings: previewSettings(voice),
+    sample: source === "catalog" ? voice.sample : undefined,
+  });
 
-  const previewVoice = async (voiceId: string) => {
-    setPreviewingVoice(voiceId);
-    
-    try {
-      // Preview with a short sample text - call AI service directly
-      const response = await fetch("https://oi-server.onrender.com/chat/completions", {
-        method: "POST",
-        headers: {
-          "CustomerId": "cus_Sc64a7mwlJwpuu",
-          "Content-Type": "application/json",
-          "Authorization": "Bearer xxx"
-        },
-        body: JSON.stringify({
-          model: "elevenlabs/eleven-multilingual-v2",
-          messages: [
-            {
-              role: "user",
-              content: JSON.stringify({
-                text: "Hello! This is a voice preview sample.",
-                voice: voiceId || "rachel",
-                model_id: "eleven_multilingual_v2",
-                voice_settings: {
-                  stability: 0.75,
-                  similarity_boost: 0.75,
-                  style: 0.0,
-                  use_speaker_boost: true,
-                },
-              })
-            }
-          ]
-        })
-      });
+  const isPreviewing = preview.status !== "idle";
+
+  // Don't leave a preview talking after the selector goes away
+  useEffect(() => stopPreview, []);
+
+  const previewVoice = (voice: Voice) => {
+    playPreviews([previewItem(voice)], previewText);
+  };
 
-      if (response.ok) {
-        // Handle response similar to main generation
-        const contentType = response.headers.get("content-type");
-        let audioBlob: Blob;
+  const compareVoices = (first: Voice, second: Voice) => {
+    playPreviews([previewItem(first), previewItem(second)], previewText);
+  };
 
-        if (contentType?.includes("application/json")) {
-          const jsonResponse = await response.json();
-          if (jsonResponse.choices && jsonResponse.choices[0] && jsonResponse.choices[0].message) {
-            const message = jsonResponse.choices[0].message.content;
-            
-            if (typeof message === "string" && message.startsWith("data:audio")) {
-              const base64Data = message.split(",")[1];
-              const binaryString = atob(base64Data);
-              const bytes = new Uint8Array(binaryString.length);
-              for (let i = 0; i < binaryString.length; i++) {
-                bytes[i] = binaryString.charCodeAt(i);
-              }
-              audioBlob = new Blob([bytes], { type: 'audio/mpeg' });
-            } else if (typeof message === "string" && (message.startsWith("http") || message.startsWith("https"))) {
-              const audioResponse = await fetch(message);
-              audioBlob = await audioResponse.blob();
-            } else {
-              return; // Skip if no audio
-            }
-          } else {
-            return;
-          }
-        } else {
-          audioBlob = await response.blob();
-        }
-        
-        const audioUrl = URL.createObjectURL(audioBlob);
-        const audio = new Audio(audioUrl);
-        
-        audio.addEventListener('ended', () => {
-          URL.revokeObjectURL(audioUrl);
-        });
-        
-        await audio.play();
-      }
-    } catch (error) {
-      console.error("Preview failed:", error);
-    } finally {
-      setPreviewingVoice(null);
-    }
+  const previewLabel = () => {
+    const name = catalog.voices.find(voice => voice.id === preview.voice)?.name ?? preview.voice;
+    const step = preview.total > 1 ? `${preview.step === 0 ? "A" : "B"}: ` : "";
+    return preview.status === "loading" ? `Preparing ${step}${name}...` : `Playing ${step}${name}`;
   };
 
+  const filterSelects: { key: keyof VoiceFilters; label: string; options: string[]; format?: (value: string) => string }[] = [
+    { key: "language", label: "Language", options: facets.languages, format: languageName },
+    { key: "accent", label: "Accent", options: facets.accents },
+    { key: "gender", label: "Gender", options: facets.genders, format: (gender) => gender.charAt(0).toUpperCase() + gender.slice(1) },
+    { key: "tag", label: "Use case", options: facets.tags },
+  ];
+
   return (
     <div className="space-y-4">
+      {/* Search and Filters */}
+      <div className="space-y-2">
+        <Input
+          value={filters.query}
+          onChange={(e) => updateFilter("query", e.target.value)}
+          placeholder={`Search ${catalog.voices.length} voices...`}
+          className="h-9"
+        />
+        <div className="grid grid-cols-2 gap-2">
+          {filterSelects.map(({ key, label, options, format }) => (
+            <Select key={key} value={filters[key]} onValueChange={(next) => updateFilter(key, next)}>
+              <SelectTrigger size="sm" className="h-8 w-full text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Any {label.toLowerCase()}</SelectItem>
+                {options.map((option) => (
+                  <SelectItem key={option} value={option}>
+                    {format ? format(option) : option}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          ))}
+        </div>
+        <div className="flex items-center justify-between text-xs text-muted-foreground">
+          <span>
+            {isFiltered ? `${filteredVoices.length} of ${catalog.voices.length} voices` : CATALOG_LABELS[catalog.source]}
+            {catalog.error && " · offline, showing saved list"}
+          </span>
+          <div className="flex items-center gap-1">
+            {isFiltered && (
+              <Button variant="ghost" size="sm" onClick={() => setFilters(DEFAULT_VOICE_FILTERS)} className="h-6 text-xs">
+                Clear filters
+              </Button>
+            )}
+            {getTtsProvider().listVoices && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => refreshVoiceCatalog()}
+                disabled={catalog.loading}
+                className="h-6 text-xs"
+                title="Reload the voice list from the provider"
+              >
+                {catalog.loading ? "Loading..." : "↻ Refresh"}
+              </Button>
+            )}
+          </div>
+        </div>
+      </div>
+
       {/* Voice Selection Dropdown */}
       <Select value={value} onValueChange={onChange}>
         <SelectTrigger className="w-full">
@@ -182,7 +191,7 @@ export default function VoiceSelector({ value, onChange }: VoiceSelectorProps) {
               <div className="flex items-center gap-2">
                 <span>{selectedVoice.name}</span>
                 <Badge variant="outline" className="text-xs">
-                  {selectedVoice.gender === "male" ? "👨" : "👩"} {selectedVoice.accent}
+                  {genderIcon(selectedVoice.gender)} {selectedVoice.accent}
                 </Badge>
               </div>
             ) : (
@@ -191,13 +200,16 @@ export default function VoiceSelector({ value, onChange }: VoiceSelectorProps) {
           </SelectValue>
         </SelectTrigger>
         <SelectContent className="max-h-80">
-          {voices.map((voice) => (
+          {filteredVoices.length === 0 && (
+            <div className="px-2 py-1.5 text-sm text-muted-foreground">No voices match the filters</div>
+          )}
+          {filteredVoices.map((voice) => (
             <SelectItem key={voice.id} value={voice.id}>
               <div className="flex items-center justify-between w-full">
                 <div className="flex items-center gap-2">
                   <span>{voice.name}</span>
                   <Badge variant="outline" className="text-xs">
-                    {voice.gender === "male" ? "👨" : "👩"} {voice.accent}
+                    {genderIcon(voice.gender)} {voice.accent}
                   </Badge>
                   {voice.premium && (
                     <Badge className="text-xs bg-gradient-to-r from-gold-500 to-yellow-600">
@@ -219,42 +231,123 @@ export default function VoiceSelector({ value, onChange }: VoiceSelectorProps) {
               <div className="flex items-center gap-3">
                 <div className="w-12 h-12 bg-gradient-to-br from-blue-500 to-purple-600 rounded-full flex items-center justify-center">
                   <span className="text-white text-lg">
-                    {selectedVoice.gender === "male" ? "👨" : "👩"}
+                    {genderIcon(selectedVoice.gender)}
                   </span>
                 </div>
                 <div>
                   <h3 className="font-semibold">{selectedVoice.name}</h3>
                   <div className="flex items-center gap-2 text-sm text-muted-foreground">
-                    <span>{selectedVoice.gender === "male" ? "Male" : "Female"}</span>
+                    <span className="capitalize">{selectedVoice.gender}</span>
                     <span>•</span>
                     <span>{selectedVoice.accent}</span>
+                    <span>•</span>
+                    <span>{languageName(selectedVoice.language)}</span>
+                    {selectedVoice.age && (
+                      <>
+                        <span>•</span>
+                        <span className="capitalize">{selectedVoice.age}</span>
+                      </>
+                    )}
                   </div>
                 </div>
               </div>
-              
-              <Button
-                variant="outline"
-                size="sm"
-                onClick={() => previewVoice(selectedVoice.id)}
-                disabled={previewingVoice === selectedVoice.id}
-                className="text-xs"
-              >
-                {previewingVoice === selectedVoice.id ? "Playing..." : "🔊 Preview"}
-              </Button>
+
+              {isPreviewing ? (
+                <Button variant="outline" size="sm" onClick={stopPreview} className="text-xs">
+                  ⏹ Stop
+                </Button>
+              ) : (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => previewVoice(selectedVoice)}
+                  className="text-xs"
+                  title={isPreviewCached(previewSettings(selectedVoice), previewText) ? "Plays the saved preview" : undefined}
+                >
+                  🔊 Preview
+                </Button>
+              )}
             </div>
-            
+
             <p className="text-sm text-muted-foreground">
               {selectedVoice.description}
             </p>
+
+            {selectedVoice.tags.length > 0 && (
+              <div className="flex flex-wrap gap-1">
+                {selectedVoice.tags.map((tag) => (
+                  <Badge
+                    key={tag}
+                    variant="secondary"
+                    className="text-xs cursor-pointer"
+                    onClick={() => updateFilter("tag", tag)}
+                  >
+                    {tag}
+                  </Badge>
+                ))}
+              </div>
+            )}
+
+            {/* Preview Options */}
+            <div className="space-y-2 border-t pt-3">
+              <div className="flex items-center gap-2">
+                <span className="text-xs text-muted-foreground w-16">Preview</span>
+                <Select value={source} onValueChange={(next) => setPreviewSource(next as PreviewTextSource)}>
+                  <SelectTrigger size="sm" className="h-8 flex-1 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="stock">Sample sentence</SelectItem>
+                    <SelectItem value="editor" disabled={!editorSentence}>First sentence of my text</SelectItem>
+                    {selectedVoice.sample && (
+                      <SelectItem value="catalog">Provider sample (ignores settings)</SelectItem>
+                    )}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex items-center gap-2">
+                <span className="text-xs text-muted-foreground w-16">Compare</span>
+                <Select value={compareVoice?.id ?? ""} onValueChange={setCompareVoiceId}>
+                  <SelectTrigger size="sm" className="h-8 flex-1 text-xs">
+                    <SelectValue placeholder="Another voice" />
+                  </SelectTrigger>
+                  <SelectContent className="max-h-80">
+                    {catalog.voices.filter(voice => voice.id !== selectedVoice.id).map((voice) => (
+                      <SelectItem key={voice.id} value={voice.id}>
+                        {genderIcon(voice.gender)} {voice.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => compareVoice && compareVoices(selectedVoice, compareVoice)}
+                  disabled={!compareVoice || isPreviewing}
+                  className="text-xs"
+                  title="Play both voices back to back on the same sentence"
+                >
+                  A/B
+                </Button>
+              </div>
+              {isPreviewing && (
+                <p className="text-xs text-muted-foreground">{previewLabel()}</p>
+              )}
+              {source === "editor" && (
+                <p className="text-xs text-muted-foreground truncate" title={editorSentence}>
+                  &ldquo;{editorSentence}&rdquo;
+                </p>
+              )}
+            </div>
           </div>
         </Card>
       )}
 
       {/* Voice Categories */}
       <div className="space-y-2">
-        <h4 className="text-sm font-medium">Popular Voices</h4>
+        <h4 className="text-sm font-medium">{isFiltered ? "Matching Voices" : "Popular Voices"}</h4>
         <div className="grid grid-cols-2 gap-2">
-          {voices.slice(0, 4).map((voice) => (
+          {filteredVoices.slice(0, 4).map((voice) => (
             <Button
               key={voice.id}
               variant={value === voice.id ? "default" : "outline"}
@@ -263,7 +356,7 @@ export default function VoiceSelector({ value, onChange }: VoiceSelectorProps) {
               className="justify-start text-xs h-8"
             >
               <span className="mr-1">
-                {voice.gender === "male" ? "👨" : "👩"}
+                {genderIcon(voice.gender)}
               </span>
               {voice.name}
             </Button>
@@ -276,11 +369,11 @@ export default function VoiceSelector({ value, onChange }: VoiceSelectorProps) {
         <p><strong>Voice Tips:</strong></p>
         <ul className="list-disc list-inside space-y-0.5 ml-2">
           <li>Try different voices to find your perfect match</li>
-          <li>Female voices often work better for storytelling</li>
-          <li>Male voices are great for professional presentations</li>
+          <li>Search by mood or use case, e.g. &quot;calm narration&quot;</li>
+          <li>Click a tag to find voices like the selected one</li>
           <li>Use the preview feature to test before generating</li>
         </ul>
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
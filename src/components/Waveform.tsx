@@ -0,0 +1,119 @@
+"use client";
+
+import { useEffect, useRef, useState, useCallback } from "react";
+import type { WaveformData } from "@/lib/audio-utils";
+
+interface WaveformProps {
+  data: WaveformData | null;
+  /** Played fraction, 0..1 */
+  progress: number;
+  /** Called with a 0..1 position on click and while dragging */
+  onSeek: (fraction: number) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+const BAR_GAP = 1;
+
+export default function Waveform({ data, progress, onSeek, disabled = false, className = "" }: WaveformProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [isScrubbing, setIsScrubbing] = useState(false);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+
+  // Track the rendered size so the canvas stays crisp on resize and HiDPI screens
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const observer = new ResizeObserver(([entry]) => {
+      setSize({ width: entry.contentRect.width, height: entry.contentRect.height });
+    });
+    observer.observe(canvas);
+
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || size.width === 0) return;
+
+    const pixelRatio = window.devicePixelRatio || 1;
+    const width = Math.round(size.width * pixelRatio);
+    const height = Math.round(size.height * pixelRatio);
+    if (canvas.width !== width) canvas.width = width;
+    if (canvas.height !== height) canvas.height = height;
+
+    const context = canvas.getContext("2d");
+    if (!context) return;
+
+    context.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0);
+    context.clearRect(0, 0, size.width, size.height);
+
+    // currentColor comes from the text-* class, so it follows the theme
+    const color = getComputedStyle(canvas).color;
+    const middle = size.height / 2;
+
+    if (!data) {
+      context.globalAlpha = 0.3;
+      context.fillStyle = color;
+      context.fillRect(0, middle - 1, size.width, 2);
+      return;
+    }
+
+    const bars = data.peaks.length;
+    const barWidth = Math.max(1, size.width / bars - BAR_GAP);
+    const playedX = progress * size.width;
+
+    for (let i = 0; i < bars; i++) {
+      const x = (i / bars) * size.width;
+      const peakHeight = Math.max(1, data.peaks[i] * size.height);
+      const rmsHeight = Math.max(1, data.rms[i] * size.height);
+      const played = x + barWidth / 2 <= playedX;
+
+      context.fillStyle = color;
+      context.globalAlpha = played ? 0.45 : 0.15;
+      context.fillRect(x, middle - peakHeight / 2, barWidth, peakHeight);
+      context.globalAlpha = played ? 1 : 0.35;
+      context.fillRect(x, middle - rmsHeight / 2, barWidth, rmsHeight);
+    }
+
+    context.globalAlpha = 1;
+  }, [data, progress, size]);
+
+  const seekToPointer = useCallback((clientX: number) => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const rect = canvas.getBoundingClientRect();
+    const fraction = Math.max(0, Math.min(1, (clientX - rect.left) / rect.width));
+    onSeek(fraction);
+  }, [onSeek]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      className={`w-full h-16 text-primary touch-none ${
+        disabled ? "opacity-50" : "cursor-pointer"
+      } ${className}`}
+      onPointerDown={(e) => {
+        if (disabled) return;
+        e.currentTarget.setPointerCapture(e.pointerId);
+        setIsScrubbing(true);
+        seekToPointer(e.clientX);
+      }}
+      onPointerMove={(e) => {
+        if (isScrubbing) seekToPointer(e.clientX);
+      }}
+      onPointerUp={(e) => {
+        e.currentTarget.releasePointerCapture(e.pointerId);
+        setIsScrubbing(false);
+      }}
+      onPointerCancel={() => setIsScrubbing(false)}
+      role="slider"
+      aria-label="Seek"
+      aria-valuemin={0}
+      aria-valuemax={100}
+      aria-valuenow={Math.round(progress * 100)}
+    />
+  );
+}
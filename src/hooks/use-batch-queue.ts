@@ -0,0 +1,18 @@
+import * as React from "react"
+import {
+  getBatchState,
+  getEmptyBatchState,
+  subscribeBatchState,
+  type BatchState,
+} from "@/lib/batch-queue"
+
+/**
+ * The batch queue and every row's status, restored from IndexedDB on first use
+ */
+export function useBatchQueue(): BatchState {
+  return React.useSyncExternalStore(
+    subscribeBatchState,
+    getBatchState,
+    getEmptyBatchState
+  )
+}
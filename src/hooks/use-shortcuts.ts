@@ -0,0 +1,73 @@
+import * as React from "react"
+import {
+  DEFAULT_SHORTCUT_BINDINGS,
+  digitToFraction,
+  eventToBinding,
+  findShortcutAction,
+  getShortcutBindings,
+  hasCommandModifier,
+  isHandledByTarget,
+  isTypingTarget,
+  subscribeShortcutBindings,
+  type ShortcutAction,
+  type ShortcutBindings,
+} from "@/lib/shortcuts"
+
+export type ShortcutHandlers = Partial<Record<ShortcutAction, () => void>> & {
+  /** Number keys 0-9 jump to 0%-90% */
+  jumpToFraction?: (fraction: number) => void
+}
+
+export function useShortcutBindings(): ShortcutBindings {
+  return React.useSyncExternalStore(
+    subscribeShortcutBindings,
+    getShortcutBindings,
+    () => DEFAULT_SHORTCUT_BINDINGS
+  )
+}
+
+/**
+ * Global keyboard shortcuts. Plain keys are ignored while typing in a text
+ * field; Ctrl/Alt combinations still fire so Ctrl+Enter works in the editor.
+ */
+export function useShortcuts(handlers: ShortcutHandlers, enabled = true) {
+  const bindings = useShortcutBindings()
+  const handlersRef = React.useRef(handlers)
+
+  React.useEffect(() => {
+    handlersRef.current = handlers
+  })
+
+  React.useEffect(() => {
+    if (!enabled) return
+
+    const onKeyDown = (event: KeyboardEvent) => {
+      // Holding a key only repeats seeking and volume
+      if (event.defaultPrevented || (event.repeat && !event.key.startsWith("Arrow"))) return
+
+      const binding = eventToBinding(event)
+      if (!binding) return
+      if (isTypingTarget(event.target) && !hasCommandModifier(binding)) return
+      if (isHandledByTarget(event.target, binding)) return
+
+      const action = findShortcutAction(bindings, binding)
+      if (action) {
+        const handler = handlersRef.current[action]
+        if (handler) {
+          event.preventDefault()
+          handler()
+        }
+        return
+      }
+
+      const fraction = digitToFraction(binding)
+      if (fraction !== null && handlersRef.current.jumpToFraction) {
+        event.preventDefault()
+        handlersRef.current.jumpToFraction(fraction)
+      }
+    }
+
+    window.addEventListener("keydown", onKeyDown)
+    return () => window.removeEventListener("keydown", onKeyDown)
+  }, [bindings, enabled])
+}
@@ -0,0 +1,19 @@
+import * as React from "react"
+import {
+  getBundledVoiceCatalog,
+  getVoiceCatalog,
+  subscribeVoiceCatalog,
+  type VoiceCatalog,
+} from "@/lib/voice-catalog"
+
+/**
+ * The provider's voice catalog, starting from the cache or bundled list and
+ * updating once a fresh copy arrives
+ */
+export function useVoiceCatalog(): VoiceCatalog {
+  return React.useSyncExternalStore(
+    subscribeVoiceCatalog,
+    getVoiceCatalog,
+    getBundledVoiceCatalog
+  )
+}
@@ -0,0 +1,18 @@
+import * as React from "react"
+import {
+  getEmptyPresetLibrary,
+  getPresetLibrary,
+  subscribePresetLibrary,
+  type PresetLibrary,
+} from "@/lib/voice-presets"
+
+/**
+ * Custom voice presets saved in this browser, plus the workspace's shared ones
+ */
+export function usePresetLibrary(): PresetLibrary {
+  return React.useSyncExternalStore(
+    subscribePresetLibrary,
+    getPresetLibrary,
+    getEmptyPresetLibrary
+  )
+}
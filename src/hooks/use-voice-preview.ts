@@ -0,0 +1,18 @@
+import * as React from "react"
+import {
+  getIdlePreviewState,
+  getPreviewState,
+  subscribePreviewState,
+  type PreviewState,
+} from "@/lib/voice-preview"
+
+/**
+ * What the shared preview player is doing; only one preview plays at a time
+ */
+export function usePreviewState(): PreviewState {
+  return React.useSyncExternalStore(
+    subscribePreviewState,
+    getPreviewState,
+    getIdlePreviewState
+  )
+}
@@ -0,0 +1,144 @@
+/**
+ * Client-side speed and pitch processing for generated audio
+ */
+
+export interface SpeedPitchSettings {
+  /** Tempo factor; 2 plays twice as fast without changing pitch */
+  speed: number;
+  /** Pitch factor; 2 is an octave up without changing tempo */
+  pitch: number;
+}
+
+const isIdentity = (value: number) => Math.abs(value - 1) < 0.005;
+
+/**
+ * Whether the settings change the audio at all
+ */
+export const needsSpeedPitchProcessing = ({ speed, pitch }: SpeedPitchSettings): boolean =>
+  !isIdentity(speed) || !isIdentity(pitch);
+
+/**
+ * WSOLA (waveform-similarity overlap-add) time stretching.
+ * Changes duration by 1/tempo while keeping pitch. The similarity search runs
+ * on a mono mix and the chosen offsets are applied to every channel so they
+ * stay phase-aligned.
+ */
+export const timeStretch = (
+  channels: Float32Array[],
+  sampleRate: number,
+  tempo: number
+): Float32Array[] => {
+  const inputLength = channels[0]?.length ?? 0;
+  if (inputLength === 0 || isIdentity(tempo)) return channels;
+
+  const frameSize = 2 * Math.round(0.02 * sampleRate); // ~40ms, even
+  const synthesisHop = frameSize / 2;
+  const overlap = frameSize - synthesisHop;
+  const tolerance = Math.round(0.01 * sampleRate);
+  // Correlate every few samples; plenty for speech and much cheaper
+  const correlationStride = 4;
+
+  const window = new Float32Array(frameSize);
+  for (let i = 0; i < frameSize; i++) {
+    window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (frameSize - 1));
+  }
+
+  const mono = new Float32Array(inputLength);
+  for (const channel of channels) {
+    for (let i = 0; i < inputLength; i++) mono[i] += channel[i] / channels.length;
+  }
+
+  const outputLength = Math.round(inputLength / tempo);
+  const output = channels.map(() => new Float32Array(outputLength + frameSize));
+  const weights = new Float32Array(outputLength + frameSize);
+
+  let previousOffset = 0;
+
+  for (let frame = 0; ; frame++) {
+    const outputPosition = frame * synthesisHop;
+    const nominal = Math.round(outputPosition * tempo);
+    if (outputPosition >= outputLength || nominal >= inputLength) break;
+
+    let offset = nominal;
+
+    if (frame > 0) {
+      // Find the input segment that best continues what was just written
+      const natural = previousOffset + synthesisHop;
+      const searchStart = Math.max(0, nominal - tolerance);
+      const searchEnd = Math.min(inputLength - frameSize, nominal + tolerance);
+      let bestCorrelation = -Infinity;
+
+      for (let candidate = searchStart; candidate <= searchEnd; candidate++) {
+        let correlation = 0;
+        for (let i = 0; i < overlap && natural + i < inputLength; i += correlationStride) {
+          correlation += mono[natural + i] * mono[candidate + i];
+        }
+        if (correlation > bestCorrelation) {
+          bestCorrelation = correlation;
+          offset = candidate;
+        }
+      }
+    }
+
+    for (let i = 0; i < frameSize; i++) {
+      const source = offset + i;
+      if (source >= inputLength) break;
+      channels.forEach((channel, index) => {
+        output[index][outputPosition + i] += channel[source] * window[i];
+      });
+      weights[outputPosition + i] += window[i];
+    }
+
+    previousOffset = offset;
+  }
+
+  return output.map(channel => {
+    const result = channel.subarray(0, outputLength);
+    for (let i = 0; i < outputLength; i++) {
+      if (weights[i] > 1e-3) result[i] /= weights[i];
+    }
+    return result;
+  });
+};
+
+/**
+ * Resample by a playback-rate factor with an OfflineAudioContext.
+ * Raises pitch and shortens duration by the same factor.
+ */
+const renderAtPlaybackRate = async (
+  channels: Float32Array[],
+  sampleRate: number,
+  rate: number
+): Promise<Float32Array[]> => {
+  if (isIdentity(rate)) return channels;
+
+  const length = Math.max(1, Math.ceil(channels[0].length / rate));
+  const offlineContext = new OfflineAudioContext(channels.length, length, sampleRate);
+  const buffer = offlineContext.createBuffer(channels.length, channels[0].length, sampleRate);
+  channels.forEach((channel, index) => buffer.copyToChannel(channel, index));
+
+  const source = offlineContext.createBufferSource();
+  source.buffer = buffer;
+  source.playbackRate.value = rate;
+  source.connect(offlineContext.destination);
+  source.start();
+
+  const rendered = await offlineContext.startRendering();
+  return channels.map((_, index) => rendered.getChannelData(index));
+};
+
+/**
+ * Apply independent speed and pitch changes to planar channel data.
+ * Stretching by speed/pitch and then resampling by pitch gives the requested
+ * tempo with the requested pitch.
+ */
+export const renderSpeedAndPitch = async (
+  channels: Float32Array[],
+  sampleRate: number,
+  settings: SpeedPitchSettings
+): Promise<Float32Array[]> => {
+  if (!needsSpeedPitchProcessing(settings) || channels.length === 0) return channels;
+
+  const stretched = timeStretch(channels, sampleRate, settings.speed / settings.pitch);
+  return renderAtPlaybackRate(stretched, sampleRate, settings.pitch);
+};
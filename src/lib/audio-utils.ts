@@ -2,6 +2,8 @@
  * Audio utilities for voice generation and processing
  */
 
+import { encodeWav, type WavBitDepth } from './wav-encoder';
+
 export interface AudioMetadata {
   duration: number;
   size: number;
@@ -39,22 +41,159 @@ export const getAudioMetadata = (audioBlob: Blob): Promise<AudioMetadata> => {
 };
 
 /**
- * Convert audio blob to different formats (browser-supported formats only)
+ * Decode an encoded audio blob into PCM samples
+ */
+export const decodeAudioBlob = async (audioBlob: Blob, context?: BaseAudioContext): Promise<AudioBuffer> => {
+  const audioContext = context ?? new AudioContext();
+  try {
+    return await audioContext.decodeAudioData(await audioBlob.arrayBuffer());
+  } finally {
+    if (!context && audioContext instanceof AudioContext) {
+      await audioContext.close();
+    }
+  }
+};
+
+/**
+ * Join pieces of planar channel data end to end.
+ * All pieces must share a sample rate.
+ */
+export const concatenateChannels = (pieces: Float32Array[][]): Float32Array[] => {
+  const numChannels = Math.max(1, ...pieces.map(piece => piece.length));
+  const totalLength = pieces.reduce((sum, piece) => sum + (piece[0]?.length ?? 0), 0);
+  const channels = Array.from({ length: numChannels }, () => new Float32Array(totalLength));
+
+  let offset = 0;
+  for (const piece of pieces) {
+    if (piece.length === 0) continue;
+    for (let channel = 0; channel < numChannels; channel++) {
+      // Upmix mono pieces by repeating their only channel
+      channels[channel].set(piece[Math.min(channel, piece.length - 1)], offset);
+    }
+    offset += piece[0].length;
+  }
+
+  return channels;
+};
+
+/**
+ * File extension for an audio MIME type
+ */
+export const getAudioExtension = (mimeType: string = 'audio/mpeg'): string => {
+  if (mimeType.includes('wav')) return 'wav';
+  if (mimeType.includes('webm')) return 'webm';
+  if (mimeType.includes('ogg')) return 'ogg';
+  if (mimeType.includes('mp4') || mimeType.includes('aac')) return 'm4a';
+  return 'mp3';
+};
+
+export type AudioExportFormat = 'audio/wav' | 'audio/webm' | 'audio/mp4';
+
+export interface ConvertOptions {
+  /** Output sample rate; defaults to the decoded rate */
+  sampleRate?: number;
+  /** WAV only */
+  bitDepth?: WavBitDepth;
+  /** Compressed formats only, in bits per second */
+  audioBitsPerSecond?: number;
+}
+
+/**
+ * Render a buffer at a new sample rate through an OfflineAudioContext
+ */
+export const resampleAudioBuffer = async (buffer: AudioBuffer, sampleRate: number): Promise<AudioBuffer> => {
+  if (buffer.sampleRate === sampleRate) return buffer;
+
+  const length = Math.ceil(buffer.duration * sampleRate);
+  const offlineContext = new OfflineAudioContext(buffer.numberOfChannels, length, sampleRate);
+  const source = offlineContext.createBufferSource();
+  source.buffer = buffer;
+  source.connect(offlineContext.destination);
+  source.start();
+  return offlineContext.startRendering();
+};
+
+/**
+ * MediaRecorder MIME type for a compressed export format, if the browser can record it
+ */
+const getRecorderMimeType = (targetFormat: Exclude<AudioExportFormat, 'audio/wav'>): string | null => {
+  if (typeof MediaRecorder === 'undefined') return null;
+
+  const candidates = targetFormat === 'audio/webm'
+    ? ['audio/webm;codecs=opus', 'audio/webm']
+    : ['audio/mp4;codecs=mp4a.40.2', 'audio/mp4'];
+
+  return candidates.find(type => MediaRecorder.isTypeSupported(type)) ?? null;
+};
+
+/**
+ * Whether convertAudioFormat can produce the given format in this browser
+ */
+export const isExportFormatSupported = (targetFormat: AudioExportFormat): boolean =>
+  targetFormat === 'audio/wav' || getRecorderMimeType(targetFormat) !== null;
+
+/**
+ * Encode a buffer with MediaRecorder. Recording runs in real time, so this
+ * takes as long as the audio plays (silently).
+ */
+const recordAudioBuffer = (
+  buffer: AudioBuffer,
+  mimeType: string,
+  audioBitsPerSecond?: number
+): Promise<Blob> => {
+  return new Promise((resolve, reject) => {
+    const audioContext = new AudioContext({ sampleRate: buffer.sampleRate });
+    const destination = audioContext.createMediaStreamDestination();
+    const source = audioContext.createBufferSource();
+    source.buffer = buffer;
+    source.connect(destination);
+
+    const recorder = new MediaRecorder(destination.stream, { mimeType, audioBitsPerSecond });
+    const parts: Blob[] = [];
+
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) parts.push(event.data);
+    };
+    recorder.onstop = () => {
+      audioContext.close();
+      resolve(new Blob(parts, { type: mimeType.split(';')[0] }));
+    };
+    recorder.onerror = () => {
+      audioContext.close();
+      reject(new Error(`Failed to encode ${mimeType}`));
+    };
+
+    source.onended = () => recorder.stop();
+    recorder.start();
+    source.start();
+  });
+};
+
+/**
+ * Convert audio blob to different formats (browser-supported formats only).
+ * WAV is encoded directly; WebM/MP4 go through MediaRecorder.
  */
 export const convertAudioFormat = async (
-  audioBlob: Blob, 
-  targetFormat: 'audio/wav' | 'audio/webm' | 'audio/mp4'
+  audioBlob: Blob,
+  targetFormat: AudioExportFormat,
+  options: ConvertOptions = {}
 ): Promise<Blob> => {
-  // This is a simplified version - in a real app you'd use Web Audio API
-  // or a library like ffmpeg.wasm for proper format conversion
-  
-  if (!MediaRecorder.isTypeSupported(targetFormat)) {
+  const recorderMimeType = targetFormat === 'audio/wav' ? null : getRecorderMimeType(targetFormat);
+  if (targetFormat !== 'audio/wav' && !recorderMimeType) {
     throw new Error(`Format ${targetFormat} is not supported`);
   }
-  
-  // For now, return the original blob
-  // In a production app, implement actual format conversion
-  return audioBlob;
+
+  const decoded = await decodeAudioBlob(audioBlob);
+  const buffer = options.sampleRate
+    ? await resampleAudioBuffer(decoded, options.sampleRate)
+    : decoded;
+
+  if (targetFormat === 'audio/wav') {
+    const channels = Array.from({ length: buffer.numberOfChannels }, (_, channel) => buffer.getChannelData(channel));
+    return encodeWav(channels, buffer.sampleRate, options.bitDepth ?? 16);
+  }
+
+  return recordAudioBuffer(buffer, recorderMimeType!, options.audioBitsPerSecond);
 };
 
 /**
@@ -67,7 +206,7 @@ export const downloadAudio = (audioBlob: Blob, filename: string = 'voice'): void
   // Ensure proper file extension
   let finalFilename = filename;
   if (!finalFilename.includes('.')) {
-    finalFilename += '.mp3';
+    finalFilename += `.${getAudioExtension(audioBlob.type || undefined)}`;
   }
   
   link.href = url;
@@ -124,6 +263,16 @@ export const formatDuration = (seconds: number): string => {
   return `${minutes}:${remainingSeconds.toString().padStart(2, '0')}`;
 };
 
+/**
+ * Format a byte count as KB/MB/GB
+ */
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+};
+
 /**
  * Estimate text reading time (words per minute)
  */
@@ -181,23 +330,49 @@ export const analyzeAudio = async (audioBlob: Blob): Promise<{
   };
 };
 
+export interface WaveformData {
+  /** Per-bucket absolute peak, 0..1 */
+  peaks: number[];
+  /** Per-bucket RMS level, 0..1 */
+  rms: number[];
+}
+
 /**
- * Create audio visualization data (simplified)
+ * Reduce planar channel data to peak/RMS buckets (channels are mixed to mono)
  */
-export const createVisualizationData = (): number[] => {
-  // This is a simplified version - in a real app you'd use Web Audio API
-  // to create proper waveform visualization data with actual audio buffer
-  
-  const dataPoints = 100;
-  const data: number[] = [];
-  
-  // Generate sample visualization data
-  for (let i = 0; i < dataPoints; i++) {
-    const value = Math.sin(i * 0.1) * Math.random() * 0.5 + 0.5;
-    data.push(Math.max(0.1, value));
+export const computeWaveform = (channels: Float32Array[], dataPoints: number = 100): WaveformData => {
+  const length = channels[0]?.length ?? 0;
+  const buckets = Math.max(1, Math.floor(dataPoints));
+  const peaks = new Array<number>(buckets).fill(0);
+  const rms = new Array<number>(buckets).fill(0);
+
+  if (length === 0) return { peaks, rms };
+
+  const samplesPerBucket = length / buckets;
+
+  for (let bucket = 0; bucket < buckets; bucket++) {
+    const start = Math.floor(bucket * samplesPerBucket);
+    const end = Math.max(start + 1, Math.floor((bucket + 1) * samplesPerBucket));
+    let peak = 0;
+    let sumSquares = 0;
+
+    for (let i = start; i < end && i < length; i++) {
+      let sample = 0;
+      for (const channel of channels) {
+        sample += channel[i];
+      }
+      sample /= channels.length;
+
+      const magnitude = Math.abs(sample);
+      if (magnitude > peak) peak = magnitude;
+      sumSquares += sample * sample;
+    }
+
+    peaks[bucket] = Math.min(1, peak);
+    rms[bucket] = Math.min(1, Math.sqrt(sumSquares / (end - start)));
   }
-  
-  return data;
+
+  return { peaks, rms };
 };
 
 interface VoiceSettings {
@@ -206,28 +381,67 @@ interface VoiceSettings {
   pitch?: number;
   stability?: number;
   clarity?: number;
+  model?: string;
+  style?: number;
+  speakerBoost?: boolean;
+  seed?: number | null;
+}
+
+export const DEFAULT_MODEL_ID = 'eleven_multilingual_v2';
+
+/**
+ * ElevenLabs-style voice generation payload
+ */
+export interface VoiceRequest {
+  text: string;
+  voice: string;
+  model_id: string;
+  voice_settings: {
+    stability: number;
+    similarity_boost: number;
+    style: number;
+    use_speaker_boost: boolean;
+    /** Only set when the provider renders speed itself */
+    speed?: number;
+  };
+  pronunciation_dictionary_locators: { pronunciation_dictionary_id: string; version_id: string }[];
+  seed: number | null;
+  previous_text: string | null;
+  next_text: string | null;
+  previous_request_ids: string[];
+  next_request_ids: string[];
+}
+
+export interface VoiceRequestContext {
+  previousText?: string | null;
+  nextText?: string | null;
 }
 
 /**
- * Voice generation request builder
+ * Voice generation request builder.
+ * Neighbouring chunk text is passed through for prosody continuity.
  */
-export const buildVoiceRequest = (text: string, settings: VoiceSettings) => {
+export const buildVoiceRequest = (
+  text: string,
+  settings: VoiceSettings,
+  context: VoiceRequestContext = {}
+): VoiceRequest => {
   const cleanText = cleanTextForTTS(text);
   
   return {
     text: cleanText,
     voice: settings.voice || 'rachel',
-    model_id: 'eleven_multilingual_v2',
+    model_id: settings.model || DEFAULT_MODEL_ID,
     voice_settings: {
       stability: Math.max(0, Math.min(1, settings.stability || 0.75)),
       similarity_boost: Math.max(0, Math.min(1, settings.clarity || 0.75)),
-      style: 0.0,
-      use_speaker_boost: true,
+      style: Math.max(0, Math.min(1, settings.style ?? 0)),
+      use_speaker_boost: settings.speakerBoost ?? true,
     },
     pronunciation_dictionary_locators: [],
-    seed: null,
-    previous_text: null,
-    next_text: null,
+    seed: settings.seed ?? null,
+    previous_text: context.previousText ? cleanTextForTTS(context.previousText) : null,
+    next_text: context.nextText ? cleanTextForTTS(context.nextText) : null,
     previous_request_ids: [],
     next_request_ids: []
   };
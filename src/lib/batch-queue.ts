@@ -0,0 +1,319 @@
+/**
+ * Batch job queue: generates rows with limited concurrency, retries failures
+ * with backoff, and keeps every row's status in IndexedDB
+ */
+
+import type { BatchOverrides, BatchRow } from './batch';
+import {
+  clearBatch as clearStoredBatch,
+  loadBatch,
+  saveBatch,
+  saveBatchJob,
+  saveBatchRow,
+  type BatchJob,
+  type BatchRowRecord,
+} from './batch-store';
+import { generateSpeech, isAbortError } from './generation';
+import { loadDictionaries } from './pronunciation';
+import { DEFAULT_MAX_CHUNK_CHARS } from './text-chunker';
+import { loadNormalizerOptions } from './text-normalizer';
+
+interface VoiceSettings {
+  voice: string;
+  speed: number;
+  pitch: number;
+  stability: number;
+  clarity: number;
+  model?: string;
+  style?: number;
+  speakerBoost?: boolean;
+  seed?: number | null;
+}
+
+export interface BatchState {
+  job: BatchJob | null;
+  rows: BatchRowRecord[];
+  /** Whether workers are generating right now */
+  running: boolean;
+}
+
+export interface BatchOptions {
+  concurrency: number;
+  maxAttempts: number;
+}
+
+export const DEFAULT_BATCH_OPTIONS: BatchOptions = {
+  concurrency: 2,
+  maxAttempts: 3,
+};
+
+export const MAX_BATCH_CONCURRENCY = 6;
+
+/** First retry waits this long, doubling per attempt */
+export const BATCH_RETRY_BASE_MS = 2000;
+
+const MAX_RETRY_DELAY_MS = 60000;
+
+const EMPTY_STATE: BatchState = { job: null, rows: [], running: false };
+
+let currentState: BatchState = EMPTY_STATE;
+let currentRun: AbortController | null = null;
+/** Settles once the last run's workers have put their rows back */
+let previousRun: Promise<void> = Promise.resolve();
+let initialized = false;
+const listeners = new Set<() => void>();
+
+const setState = (state: BatchState): void => {
+  currentState = state;
+  listeners.forEach(listener => listener());
+};
+
+/**
+ * Backoff before the next try, with jitter so rows that failed together
+ * don't all retry at once
+ */
+export const retryDelay = (attempts: number): number =>
+  Math.min(MAX_RETRY_DELAY_MS, BATCH_RETRY_BASE_MS * 2 ** (attempts - 1)) * (0.75 + Math.random() * 0.5);
+
+const wait = (ms: number, signal: AbortSignal): Promise<void> =>
+  new Promise(resolve => {
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener('abort', () => {
+      clearTimeout(timer);
+      resolve();
+    }, { once: true });
+  });
+
+const persistRow = (row: BatchRowRecord): void => {
+  saveBatchRow(row).catch(error => console.error('Failed to save batch row:', error));
+};
+
+const persistJob = (job: BatchJob): void => {
+  saveBatchJob(job).catch(error => console.error('Failed to save batch job:', error));
+};
+
+const updateRow = (jobId: string, index: number, changes: Partial<BatchRowRecord>): void => {
+  // The batch may have been cleared or replaced while the row was generating
+  if (currentState.job?.id !== jobId) return;
+
+  const row = { ...currentState.rows[index], ...changes };
+  const rows = [...currentState.rows];
+  rows[index] = row;
+  setState({ ...currentState, rows });
+  persistRow(row);
+};
+
+const updateJob = (changes: Partial<BatchJob>): void => {
+  if (!currentState.job) return;
+  const job = { ...currentState.job, ...changes };
+  setState({ ...currentState, job });
+  persistJob(job);
+};
+
+/**
+ * Generate one row. Aborted rows go back to pending without using up a try.
+ */
+const processRow = async (row: BatchRowRecord, job: BatchJob, signal: AbortSignal): Promise<void> => {
+  updateRow(job.id, row.index, { status: 'running' });
+
+  try {
+    const { blob } = await generateSpeech(row.text, row.settings, {
+      maxChunkChars: DEFAULT_MAX_CHUNK_CHARS,
+      dictionaries: loadDictionaries(),
+      normalization: loadNormalizerOptions(),
+      signal,
+    });
+    updateRow(job.id, row.index, { status: 'done', attempts: row.attempts + 1, error: null, retryAt: null, blob });
+  } catch (error) {
+    if (isAbortError(error) || signal.aborted) {
+      updateRow(job.id, row.index, { status: 'pending' });
+      return;
+    }
+
+    const attempts = row.attempts + 1;
+    const failed = attempts >= job.maxAttempts;
+    updateRow(job.id, row.index, {
+      status: failed ? 'failed' : 'pending',
+      attempts,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      retryAt: failed ? null : Date.now() + retryDelay(attempts),
+    });
+  }
+};
+
+/**
+ * Work through pending rows until none are left or the batch is paused
+ */
+const runQueue = async (): Promise<void> => {
+  // Rows an aborted run had in flight only return to pending once its workers
+  // settle; starting before that would find nothing to do and stop
+  await previousRun;
+
+  const job = currentState.job;
+  if (!job || job.paused || currentRun) return;
+
+  const run = new AbortController();
+  currentRun = run;
+  setState({ ...currentState, running: true });
+
+  const worker = async () => {
+    while (!run.signal.aborted && currentState.job?.id === job.id) {
+      const now = Date.now();
+      const pending = currentState.rows.filter(row => row.status === 'pending');
+      if (pending.length === 0) return;
+
+      const row = pending.find(item => (item.retryAt ?? 0) <= now);
+      if (!row) {
+        // Everything left is waiting out a backoff
+        await wait(Math.min(...pending.map(item => item.retryAt ?? now)) - now, run.signal);
+        continue;
+      }
+
+      await processRow(row, job, run.signal);
+    }
+  };
+
+  const workers = Promise.all(Array.from({ length: Math.max(1, job.concurrency) }, worker)).then(() => undefined);
+  previousRun = workers;
+  await workers;
+
+  if (currentRun === run) {
+    currentRun = null;
+    setState({ ...currentState, running: false });
+  }
+};
+
+const stopRun = (): void => {
+  currentRun?.abort();
+  currentRun = null;
+  if (currentState.running) setState({ ...currentState, running: false });
+};
+
+/**
+ * Restore the saved batch. One that was running when the page closed comes
+ * back paused, so a reload never spends credits unasked.
+ */
+const initialize = (): void => {
+  if (initialized || typeof window === 'undefined') return;
+  initialized = true;
+
+  loadBatch()
+    .then(saved => {
+      if (!saved || currentState.job) return;
+
+      const unfinished = saved.rows.some(row => row.status === 'pending' || row.status === 'running');
+      const job = { ...saved.job, paused: saved.job.paused || unfinished };
+      const rows = saved.rows.map(row => (row.status === 'running' ? { ...row, status: 'pending' as const } : row));
+
+      setState({ job, rows, running: false });
+      if (job.paused !== saved.job.paused) persistJob(job);
+    })
+    .catch(error => console.error('Failed to load batch queue:', error));
+};
+
+const applyOverrides = (settings: VoiceSettings, overrides: BatchOverrides): VoiceSettings => ({
+  voice: settings.voice,
+  speed: settings.speed,
+  pitch: settings.pitch,
+  stability: settings.stability,
+  clarity: settings.clarity,
+  model: settings.model,
+  style: settings.style,
+  speakerBoost: settings.speakerBoost,
+  seed: settings.seed ?? null,
+  ...overrides,
+});
+
+/**
+ * Replace any current batch with new rows and start generating them
+ */
+export const startBatch = async (
+  name: string,
+  rows: BatchRow[],
+  settings: VoiceSettings,
+  options: BatchOptions = DEFAULT_BATCH_OPTIONS
+): Promise<void> => {
+  stopRun();
+
+  const job: BatchJob = {
+    id: Date.now().toString(36),
+    name,
+    createdAt: new Date(),
+    concurrency: Math.max(1, Math.min(MAX_BATCH_CONCURRENCY, options.concurrency)),
+    maxAttempts: Math.max(1, options.maxAttempts),
+    paused: false,
+  };
+  const records = rows.map((row, index): BatchRowRecord => ({
+    jobId: job.id,
+    index,
+    id: row.id,
+    text: row.text,
+    settings: applyOverrides(settings, row.overrides),
+    status: 'pending',
+    attempts: 0,
+    error: null,
+    retryAt: null,
+    blob: null,
+  }));
+
+  await saveBatch(job, records);
+  setState({ job, rows: records, running: false });
+  runQueue();
+};
+
+/**
+ * Stop after aborting the rows in flight; they are retried on resume
+ */
+export const pauseBatch = (): void => {
+  updateJob({ paused: true });
+  stopRun();
+};
+
+export const resumeBatch = (): void => {
+  updateJob({ paused: false });
+  runQueue();
+};
+
+/**
+ * Change how many rows generate at once, restarting the workers if needed
+ */
+export const setBatchConcurrency = (concurrency: number): void => {
+  updateJob({ concurrency: Math.max(1, Math.min(MAX_BATCH_CONCURRENCY, concurrency)) });
+  if (currentRun) {
+    stopRun();
+    runQueue();
+  }
+};
+
+/**
+ * Queue failed rows again with a fresh set of tries
+ */
+export const retryFailedRows = (): void => {
+  const job = currentState.job;
+  if (!job) return;
+
+  currentState.rows
+    .filter(row => row.status === 'failed')
+    .forEach(row => updateRow(job.id, row.index, { status: 'pending', attempts: 0, error: null, retryAt: null }));
+  runQueue();
+};
+
+export const clearBatch = async (): Promise<void> => {
+  stopRun();
+  setState(EMPTY_STATE);
+  await clearStoredBatch();
+};
+
+export const getBatchState = (): BatchState => {
+  initialize();
+  return currentState;
+};
+
+export const getEmptyBatchState = (): BatchState => EMPTY_STATE;
+
+export const subscribeBatchState = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
@@ -0,0 +1,150 @@
+/**
+ * Persistent batch job queue backed by IndexedDB, so a batch survives reloads
+ */
+
+const DB_NAME = 'voicegen-batch';
+const DB_VERSION = 1;
+const JOB_STORE = 'jobs';
+const ROW_STORE = 'rows';
+
+interface VoiceSettings {
+  voice: string;
+  speed: number;
+  pitch: number;
+  stability: number;
+  clarity: number;
+  model?: string;
+  style?: number;
+  speakerBoost?: boolean;
+  seed?: number | null;
+}
+
+export type BatchRowStatus = 'pending' | 'running' | 'done' | 'failed';
+
+export interface BatchJob {
+  id: string;
+  /** Imported file name */
+  name: string;
+  createdAt: Date;
+  /** Rows generated at the same time */
+  concurrency: number;
+  /** Tries per row before it is marked failed */
+  maxAttempts: number;
+  paused: boolean;
+}
+
+export interface BatchRowRecord {
+  jobId: string;
+  /** Position in the imported file */
+  index: number;
+  id: string;
+  text: string;
+  /** Batch settings with the row's overrides applied */
+  settings: VoiceSettings;
+  status: BatchRowStatus;
+  attempts: number;
+  /** Last failure, kept while the row waits for a retry */
+  error: string | null;
+  /** Earliest time for the next try, in ms since the epoch */
+  retryAt: number | null;
+  blob: Blob | null;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(JOB_STORE)) {
+          db.createObjectStore(JOB_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(ROW_STORE)) {
+          db.createObjectStore(ROW_STORE, { keyPath: ['jobId', 'index'] });
+        }
+      };
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error ?? new Error('Failed to open batch database'));
+    });
+
+    // Allow a retry after a failed open
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+
+  return dbPromise;
+};
+
+/**
+ * Run writes or reads against both stores in one transaction
+ */
+const withTransaction = async <T>(
+  mode: IDBTransactionMode,
+  run: (jobs: IDBObjectStore, rows: IDBObjectStore) => T
+): Promise<T> => {
+  const db = await openDatabase();
+  const transaction = db.transaction([JOB_STORE, ROW_STORE], mode);
+  const done = new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error ?? new Error('IndexedDB transaction failed'));
+    transaction.onabort = () => reject(transaction.error ?? new Error('IndexedDB transaction aborted'));
+  });
+
+  const result = run(transaction.objectStore(JOB_STORE), transaction.objectStore(ROW_STORE));
+  await done;
+  return result;
+};
+
+/**
+ * The saved batch, if any, with its rows in file order
+ */
+export const loadBatch = async (): Promise<{ job: BatchJob; rows: BatchRowRecord[] } | null> => {
+  const requests = await withTransaction('readonly', (jobs, rows) => ({
+    jobs: jobs.getAll() as IDBRequest<BatchJob[]>,
+    rows: rows.getAll() as IDBRequest<BatchRowRecord[]>,
+  }));
+
+  const [job] = requests.jobs.result;
+  if (!job) return null;
+  return {
+    job,
+    rows: requests.rows.result.filter(row => row.jobId === job.id).sort((a, b) => a.index - b.index),
+  };
+};
+
+/**
+ * Replace the saved batch; only one batch is kept at a time
+ */
+export const saveBatch = (job: BatchJob, rows: BatchRowRecord[]): Promise<void> =>
+  withTransaction('readwrite', (jobs, rowStore) => {
+    jobs.clear();
+    rowStore.clear();
+    jobs.put(job);
+    rows.forEach(row => rowStore.put(row));
+  });
+
+export const saveBatchJob = (job: BatchJob): Promise<void> =>
+  withTransaction('readwrite', jobs => {
+    jobs.put(job);
+  });
+
+export const saveBatchRow = (row: BatchRowRecord): Promise<void> =>
+  withTransaction('readwrite', (_jobs, rows) => {
+    rows.put(row);
+  });
+
+export const clearBatch = (): Promise<void> =>
+  withTransaction('readwrite', (jobs, rows) => {
+    jobs.clear();
+    rows.clear();
+  });
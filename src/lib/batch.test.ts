@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { parseBatchFile, parseCsv } from './batch';
+
+describe('parseCsv', () => {
+  it('reads quoted fields with commas, doubled quotes and line breaks', () => {
+    expect(parseCsv('id,text\r\n1,"Hello, ""world""\nagain"\r\n')).toEqual([
+      ['id', 'text'],
+      ['1', 'Hello, "world"\nagain'],
+    ]);
+  });
+
+  it('drops a byte order mark and blank lines', () => {
+    expect(parseCsv('\uFEFFtext\n\nhi\n')).toEqual([['text'], ['hi']]);
+  });
+});
+
+describe('parseBatchFile', () => {
+  it('maps header aliases to overrides', () => {
+    const { rows, errors } = parseBatchFile(
+      'rows.csv',
+      'key,prompt,voice_id,speed,similarity_boost,speaker_boost\nwelcome,Hi there,rachel,1.2,0.9,no'
+    );
+    expect(errors).toEqual([]);
+    expect(rows).toEqual([
+      { id: 'welcome', text: 'Hi there', overrides: { voice: 'rachel', speed: 1.2, clarity: 0.9, speakerBoost: false } },
+    ]);
+  });
+
+  it('reads JSON rows with nested settings and numbers rows without an id', () => {
+    const { rows } = parseBatchFile('rows.json', JSON.stringify({ rows: [{ text: 'One', settings: { stability: 0.5 } }] }));
+    expect(rows).toEqual([{ id: '1', text: 'One', overrides: { stability: 0.5 } }]);
+  });
+
+  it('reports invalid and duplicate rows with spreadsheet row numbers', () => {
+    const { rows, errors } = parseBatchFile('rows.csv', 'id,text,speed\na,One,\na,Two,\nb,,\nc,Three,fast');
+    expect(rows.map(row => row.id)).toEqual(['a']);
+    expect(errors).toEqual([
+      'Row 3: duplicate id "a"',
+      'Row 4: missing text',
+      'Row 5: speed must be a number',
+    ]);
+  });
+
+  it('rejects settings outside the control ranges', () => {
+    const { rows, errors } = parseBatchFile(
+      'rows.json',
+      JSON.stringify([{ text: 'hi', speed: 9 }, { text: 'hi', similarity: -1 }, { text: 'hi', seed: 1.5 }])
+    );
+    expect(rows).toEqual([]);
+    expect(errors).toEqual([
+      'Row 1: speed must be between 0.5 and 2',
+      'Row 2: clarity must be between 0 and 1',
+      'Row 3: seed must be a whole number',
+    ]);
+  });
+
+  it('needs a text column in CSV files', () => {
+    expect(() => parseBatchFile('rows.csv', 'id,voice\n1,rachel')).toThrow('"text" column');
+  });
+});
@@ -0,0 +1,297 @@
+/**
+ * Batch rows: imported from CSV or JSON, exported as a ZIP with a manifest
+ */
+
+import { getAudioExtension } from './audio-utils';
+import type { BatchJob, BatchRowRecord } from './batch-store';
+import { createZip, type ZipEntry } from './zip';
+
+interface VoiceSettings {
+  voice: string;
+  speed: number;
+  pitch: number;
+  stability: number;
+  clarity: number;
+  model?: string;
+  style?: number;
+  speakerBoost?: boolean;
+  seed?: number | null;
+}
+
+export type BatchOverrides = Partial<VoiceSettings>;
+
+export interface BatchRow {
+  id: string;
+  text: string;
+  /** Settings that replace the batch's own for this row */
+  overrides: BatchOverrides;
+}
+
+export interface BatchImport {
+  rows: BatchRow[];
+  /** Rows that were skipped and why */
+  errors: string[];
+}
+
+export const MAX_BATCH_ROWS = 1000;
+
+type BatchField = keyof VoiceSettings | 'id' | 'text';
+
+// Header names are matched lowercased with spaces and dashes as underscores
+const FIELD_ALIASES: Record<string, BatchField> = {
+  id: 'id',
+  key: 'id',
+  text: 'text',
+  prompt: 'text',
+  voice: 'voice',
+  voice_id: 'voice',
+  speed: 'speed',
+  pitch: 'pitch',
+  stability: 'stability',
+  clarity: 'clarity',
+  similarity: 'clarity',
+  similarity_boost: 'clarity',
+  style: 'style',
+  speaker_boost: 'speakerBoost',
+  speakerboost: 'speakerBoost',
+  use_speaker_boost: 'speakerBoost',
+  model: 'model',
+  model_id: 'model',
+  seed: 'seed',
+};
+
+const NUMBER_FIELDS = ['speed', 'pitch', 'stability', 'clarity', 'style', 'seed'] as const;
+
+// Same bounds as the voice controls; client-side stretching covers any speed in range
+const NUMBER_RANGES: Record<(typeof NUMBER_FIELDS)[number], [number, number]> = {
+  speed: [0.5, 2],
+  pitch: [0.5, 1.5],
+  stability: [0, 1],
+  clarity: [0, 1],
+  style: [0, 1],
+  seed: [0, 4294967295],
+};
+
+const toFieldName = (header: string): BatchField | undefined =>
+  FIELD_ALIASES[header.trim().toLowerCase().replace(/[\s-]+/g, '_')];
+
+/**
+ * Split CSV into records of fields (RFC 4180: quoted fields may hold commas,
+ * doubled quotes and line breaks)
+ */
+export const parseCsv = (source: string): string[][] => {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  // A byte order mark from spreadsheet exports would end up in the first header
+  const text = source.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  // Blank lines carry no row
+  return records.filter(fields => fields.some(value => value.trim() !== ''));
+};
+
+const toRow = (source: Record<string, unknown>, label: string, errors: string[]): BatchRow | null => {
+  const values: Partial<Record<BatchField, unknown>> = {};
+  for (const [key, value] of Object.entries(source)) {
+    const field = toFieldName(key);
+    if (field && value !== '' && value !== null && value !== undefined) values[field] = value;
+  }
+
+  if (typeof values.text !== 'string' || !values.text.trim()) {
+    errors.push(`${label}: missing text`);
+    return null;
+  }
+
+  const overrides: BatchOverrides = {};
+  if (values.voice !== undefined) overrides.voice = String(values.voice).trim();
+  if (values.model !== undefined) overrides.model = String(values.model).trim();
+
+  for (const field of NUMBER_FIELDS) {
+    if (values[field] === undefined) continue;
+    const value = Number(values[field]);
+    if (!Number.isFinite(value)) {
+      errors.push(`${label}: ${field} must be a number`);
+      return null;
+    }
+
+    const [min, max] = NUMBER_RANGES[field];
+    if (value < min || value > max) {
+      errors.push(`${label}: ${field} must be between ${min} and ${max}`);
+      return null;
+    }
+    if (field === 'seed' && !Number.isInteger(value)) {
+      errors.push(`${label}: seed must be a whole number`);
+      return null;
+    }
+    overrides[field] = value;
+  }
+
+  if (values.speakerBoost !== undefined) {
+    const flag = String(values.speakerBoost).trim().toLowerCase();
+    if (!['true', 'false', 'yes', 'no', '1', '0'].includes(flag)) {
+      errors.push(`${label}: speaker boost must be true or false`);
+      return null;
+    }
+    overrides.speakerBoost = ['true', 'yes', '1'].includes(flag);
+  }
+
+  return { id: String(values.id ?? '').trim(), text: values.text.trim(), overrides };
+};
+
+const readJsonRecords = (content: string): Record<string, unknown>[] => {
+  let json: unknown;
+  try {
+    json = JSON.parse(content);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+
+  const records = Array.isArray(json) ? json : (json as { rows?: unknown } | null)?.rows;
+  if (!Array.isArray(records)) {
+    throw new Error('Expected an array of rows, or an object with a "rows" array');
+  }
+
+  // Overrides may also sit in a nested "settings" object
+  return records.map(record => {
+    const { settings, ...fields } = (record ?? {}) as Record<string, unknown>;
+    return { ...(settings && typeof settings === 'object' ? settings : {}), ...fields };
+  });
+};
+
+const readCsvRecords = (content: string): Record<string, unknown>[] => {
+  const [header, ...records] = parseCsv(content);
+  if (!header || !header.some(name => toFieldName(name) === 'text')) {
+    throw new Error('The CSV needs a header row with a "text" column');
+  }
+
+  return records.map(fields => Object.fromEntries(header.map((name, index) => [name, fields[index] ?? ''])));
+};
+
+/**
+ * Rows from a CSV or JSON file. Rows without an id are numbered; invalid
+ * and duplicate rows are skipped and reported.
+ */
+export const parseBatchFile = (fileName: string, content: string): BatchImport => {
+  const isJson = /\.json$/i.test(fileName) || /^\s*[[{]/.test(content);
+  const records = isJson ? readJsonRecords(content) : readCsvRecords(content);
+
+  if (records.length > MAX_BATCH_ROWS) {
+    throw new Error(`A batch can have at most ${MAX_BATCH_ROWS} rows; this file has ${records.length}`);
+  }
+
+  const errors: string[] = [];
+  const rows: BatchRow[] = [];
+  const seen = new Set<string>();
+
+  records.forEach((record, index) => {
+    // CSV rows count the header line, so numbers match the spreadsheet
+    const label = `Row ${isJson ? index + 1 : index + 2}`;
+    const row = toRow(record, label, errors);
+    if (!row) return;
+
+    if (!row.id) row.id = String(index + 1);
+    if (seen.has(row.id)) {
+      errors.push(`${label}: duplicate id "${row.id}"`);
+      return;
+    }
+
+    seen.add(row.id);
+    rows.push(row);
+  });
+
+  return { rows, errors };
+};
+
+const escapeCsv = (value: string): string =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+/**
+ * File names for row ids, safe on every OS and unique within the archive
+ */
+const createFileNamer = () => {
+  const used = new Set<string>();
+
+  return (id: string, format: string): string => {
+    const base = id.replace(/[^\w.-]+/g, '_').replace(/^[.]+/, '').slice(0, 80) || 'row';
+    const extension = getAudioExtension(format);
+    let name = `${base}.${extension}`;
+    for (let n = 2; used.has(name.toLowerCase()); n++) {
+      name = `${base}-${n}.${extension}`;
+    }
+    used.add(name.toLowerCase());
+    return name;
+  };
+};
+
+/**
+ * ZIP of every finished row, plus manifest.json and manifest.csv mapping
+ * row ids to file names. Failed rows are listed in the JSON manifest.
+ */
+export const createBatchZip = (job: BatchJob, rows: BatchRowRecord[]): Promise<Blob> => {
+  const nameFile = createFileNamer();
+  const entries: ZipEntry[] = [];
+  const files: { id: string; file: string; text: string; settings: VoiceSettings; bytes: number }[] = [];
+
+  for (const row of rows) {
+    if (row.status !== 'done' || !row.blob) continue;
+    const file = nameFile(row.id, row.blob.type || 'audio/mpeg');
+    entries.push({ name: file, data: row.blob });
+    files.push({ id: row.id, file, text: row.text, settings: row.settings, bytes: row.blob.size });
+  }
+
+  const manifest = {
+    name: job.name,
+    createdAt: job.createdAt,
+    files,
+    failed: rows
+      .filter(row => row.status === 'failed')
+      .map(row => ({ id: row.id, text: row.text, error: row.error })),
+  };
+
+  const csv = [
+    'id,file,voice,text',
+    ...files.map(file => [file.id, file.file, file.settings.voice, file.text].map(escapeCsv).join(',')),
+  ].join('\r\n');
+
+  entries.push(
+    { name: 'manifest.json', data: JSON.stringify(manifest, null, 2) },
+    { name: 'manifest.csv', data: `${csv}\r\n` }
+  );
+
+  return createZip(entries);
+};
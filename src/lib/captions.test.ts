@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { formatSrt, formatWebVtt, toCaptionCues, type CaptionCue, type WordTiming } from './captions';
+
+const words: WordTiming[] = [
+  { text: 'Hello', start: 0, end: 0.4 },
+  { text: 'world.', start: 0.5, end: 1.2 },
+  { text: 'Fish', start: 1.5, end: 1.9 },
+  { text: '&', start: 2, end: 2.1 },
+  { text: '<chips>', start: 2.2, end: 2.8 },
+];
+
+const cues: CaptionCue[] = [
+  { start: 0, end: 1.2, lines: [words.slice(0, 2)] },
+  { start: 3723.5, end: 3725.0005, lines: [words.slice(2, 4), words.slice(4)] },
+];
+
+describe('toCaptionCues', () => {
+  it('breaks after sentences and wraps lines', () => {
+    const grouped = toCaptionCues(words, { lineLength: 10, maxLines: 2, maxDuration: 7 });
+    expect(grouped.map(cue => cue.lines.map(line => line.map(word => word.text).join(' ')))).toEqual([
+      ['Hello', 'world.'],
+      ['Fish &', '<chips>'],
+    ]);
+  });
+
+  it('starts a new cue once one would stay up too long', () => {
+    const grouped = toCaptionCues(words.slice(2), { lineLength: 42, maxLines: 2, maxDuration: 1 });
+    expect(grouped.map(cue => [cue.start, cue.end])).toEqual([[1.5, 2.1], [2.2, 2.8]]);
+  });
+});
+
+describe('formatSrt', () => {
+  it('numbers cues and uses comma timestamps', () => {
+    expect(formatSrt(cues)).toBe([
+      '1',
+      '00:00:00,000 --> 00:00:01,200',
+      'Hello world.',
+      '',
+      '2',
+      '01:02:03,500 --> 01:02:05,001',
+      'Fish &\n<chips>',
+      '',
+    ].join('\n'));
+  });
+});
+
+describe('formatWebVtt', () => {
+  it('escapes text and uses period timestamps', () => {
+    expect(formatWebVtt(cues)).toBe([
+      'WEBVTT',
+      '',
+      '00:00:00.000 --> 00:00:01.200',
+      'Hello world.',
+      '',
+      '01:02:03.500 --> 01:02:05.001',
+      'Fish &amp;\n&lt;chips&gt;',
+      '',
+    ].join('\n'));
+  });
+
+  it('tags each word after the first with its start time', () => {
+    expect(formatWebVtt(cues.slice(0, 1), true)).toBe([
+      'WEBVTT',
+      '',
+      '00:00:00.000 --> 00:00:01.200',
+      'Hello <00:00:00.500>world.',
+      '',
+    ].join('\n'));
+  });
+});
@@ -0,0 +1,236 @@
+/**
+ * Word timing for generated audio, and SRT / WebVTT caption export
+ */
+
+import { INLINE_MARKER, parseMarkup, renderSegments, type TextFormat } from './markup';
+import { parseScript } from './script';
+import { parseSsml, renderSsmlSegments } from './ssml';
+
+/**
+ * Per-character timing as providers report it, in seconds
+ */
+export interface CharacterAlignment {
+  characters: string[];
+  startTimes: number[];
+  endTimes: number[];
+}
+
+export interface WordTiming {
+  text: string;
+  /** Seconds from the start of the track */
+  start: number;
+  end: number;
+}
+
+export interface CaptionTrack {
+  words: WordTiming[];
+  /** Some timing was spread by text length because the provider reported none */
+  estimated: boolean;
+}
+
+export interface CaptionCue {
+  start: number;
+  end: number;
+  /** Words of each line, kept so word timing can go into the file */
+  lines: WordTiming[][];
+}
+
+export type CaptionFormat = 'srt' | 'vtt';
+
+export interface CueOptions {
+  /** Characters per caption line */
+  lineLength: number;
+  /** Lines per cue */
+  maxLines: number;
+  /** Longest a cue stays on screen, in seconds */
+  maxDuration: number;
+}
+
+// Common broadcast limits: two lines of 42 characters, at most seven seconds
+export const DEFAULT_CUE_OPTIONS: CueOptions = {
+  lineLength: 42,
+  maxLines: 2,
+  maxDuration: 7,
+};
+
+/**
+ * Group characters into words, shifted and scaled into track time.
+ * Inline SSML tags in the request text are timed but never shown.
+ */
+export const alignmentToWords = (alignment: CharacterAlignment, offset: number = 0, scale: number = 1): WordTiming[] => {
+  const words: WordTiming[] = [];
+  let current: WordTiming | null = null;
+  let inTag = false;
+
+  alignment.characters.forEach((char, index) => {
+    if (char === '<') inTag = true;
+    const visible = !inTag && char.trim() !== '';
+    if (char === '>') inTag = false;
+
+    if (!visible) {
+      current = null;
+      return;
+    }
+
+    const start = offset + alignment.startTimes[index] * scale;
+    const end = offset + alignment.endTimes[index] * scale;
+    if (current) {
+      current.text += char;
+      current.end = end;
+    } else {
+      current = { text: char, start, end };
+      words.push(current);
+    }
+  });
+
+  return words;
+};
+
+/**
+ * Spread a span across its words in proportion to their length, counting the
+ * space after each word so short words still get a moment. Tags and inline
+ * SSML placeholders are dropped.
+ */
+export const estimateWords = (text: string, start: number, end: number): WordTiming[] => {
+  const tokens = text.replace(/<[^>]*>/g, ' ').split(INLINE_MARKER).join(' ').split(/\s+/).filter(Boolean);
+  const totalWeight = tokens.reduce((sum, token) => sum + token.length + 1, 0);
+  const secondsPerUnit = totalWeight > 0 ? (end - start) / totalWeight : 0;
+
+  let position = start;
+  return tokens.map(token => {
+    const wordStart = position;
+    position += (token.length + 1) * secondsPerUnit;
+    return { text: token, start: wordStart, end: position - secondsPerUnit };
+  });
+};
+
+/**
+ * Estimated captions for audio generated before timing was recorded: the
+ * spoken text spread over the whole duration
+ */
+export const estimateCaptionTrack = (
+  text: string,
+  duration: number,
+  format: TextFormat = 'markup',
+  isScript: boolean = false
+): CaptionTrack => {
+  const source = isScript ? parseScript(text).lines.map(line => line.text).join('\n') : text;
+  const segments = format === 'ssml'
+    ? renderSsmlSegments(parseSsml(source).nodes)
+    : renderSegments(parseMarkup(source).nodes);
+  const spoken = segments.flatMap(segment => (segment.type === 'speech' ? [segment.text] : [])).join(' ');
+
+  return { words: estimateWords(spoken, 0, duration), estimated: true };
+};
+
+const endsSentence = (word: string): boolean => /[.!?…]["')\]]*$/.test(word);
+
+/**
+ * Wrap words onto lines of at most `lineLength` characters
+ */
+const wrapLines = (words: WordTiming[], lineLength: number): WordTiming[][] => {
+  const lines: WordTiming[][] = [];
+  let length = 0;
+  for (const word of words) {
+    const line = lines[lines.length - 1];
+    if (line && length + 1 + word.text.length <= lineLength) {
+      line.push(word);
+      length += 1 + word.text.length;
+    } else {
+      lines.push([word]);
+      length = word.text.length;
+    }
+  }
+  return lines;
+};
+
+/**
+ * Group words into cues that fit the line limits, breaking after sentences
+ */
+export const toCaptionCues = (words: WordTiming[], options: CueOptions = DEFAULT_CUE_OPTIONS): CaptionCue[] => {
+  const cues: CaptionCue[] = [];
+  let group: WordTiming[] = [];
+
+  const flush = () => {
+    if (group.length === 0) return;
+    cues.push({
+      start: group[0].start,
+      end: group[group.length - 1].end,
+      lines: wrapLines(group, options.lineLength),
+    });
+    group = [];
+  };
+
+  for (const word of words) {
+    const tooLong = wrapLines([...group, word], options.lineLength).length > options.maxLines;
+    const tooSlow = group.length > 0 && word.end - group[0].start > options.maxDuration;
+    if (tooLong || tooSlow) flush();
+
+    group.push(word);
+    if (endsSentence(word.text)) flush();
+  }
+  flush();
+
+  // Never overlap, so players don't stack two cues
+  for (let i = 0; i < cues.length - 1; i++) {
+    cues[i].end = Math.min(cues[i].end, cues[i + 1].start);
+  }
+
+  return cues;
+};
+
+const formatTimestamp = (seconds: number, separator: ',' | '.'): string => {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const hours = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor((totalMs % 3600000) / 60000);
+  const secs = Math.floor((totalMs % 60000) / 1000);
+  const ms = totalMs % 1000;
+  const pad = (value: number, length: number = 2) => value.toString().padStart(length, '0');
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${separator}${pad(ms, 3)}`;
+};
+
+const cueText = (cue: CaptionCue, formatWord: (word: WordTiming, index: number) => string): string => {
+  let index = 0;
+  return cue.lines.map(line => line.map(word => formatWord(word, index++)).join(' ')).join('\n');
+};
+
+export const formatSrt = (cues: CaptionCue[]): string =>
+  cues
+    .map((cue, index) => [
+      index + 1,
+      `${formatTimestamp(cue.start, ',')} --> ${formatTimestamp(cue.end, ',')}`,
+      cueText(cue, word => word.text),
+      '',
+    ].join('\n'))
+    .join('\n');
+
+const escapeVtt = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+/**
+ * WebVTT, optionally with a timestamp tag before each word after the first,
+ * for karaoke-style highlighting
+ */
+export const formatWebVtt = (cues: CaptionCue[], wordTimestamps: boolean = false): string => {
+  const body = cues.map(cue => [
+    `${formatTimestamp(cue.start, '.')} --> ${formatTimestamp(cue.end, '.')}`,
+    cueText(cue, (word, index) =>
+      (wordTimestamps && index > 0 ? `<${formatTimestamp(word.start, '.')}>` : '') + escapeVtt(word.text)
+    ),
+    '',
+  ].join('\n'));
+
+  return ['WEBVTT', '', ...body].join('\n');
+};
+
+/**
+ * Caption file contents for a track
+ */
+export const formatCaptions = (
+  track: CaptionTrack,
+  format: CaptionFormat,
+  options: { wordTimestamps?: boolean } = {}
+): string => {
+  const cues = toCaptionCues(track.words);
+  return format === 'srt' ? formatSrt(cues) : formatWebVtt(cues, options.wordTimestamps);
+};
@@ -0,0 +1,509 @@
+/**
+ * Long-form voice generation pipeline: chunk, synthesize, stitch
+ */
+
+import {
+  needsSpeedPitchProcessing,
+  renderSpeedAndPitch,
+  timeStretch,
+  type SpeedPitchSettings,
+} from './audio-effects';
+import {
+  buildVoiceRequest,
+  concatenateChannels,
+  decodeAudioBlob,
+  type VoiceRequest,
+} from './audio-utils';
+import { alignmentToWords, estimateWords, type CaptionTrack, type CharacterAlignment } from './captions';
+import {
+  INLINE_MARKER,
+  parseMarkup,
+  renderSegments,
+  type SpeechSegment,
+  type TextFormat,
+} from './markup';
+import { applyPronunciationRules, type PronunciationDictionary } from './pronunciation';
+import { parseScript, type ScriptSettings } from './script';
+import { parseSsml, renderSsmlSegments } from './ssml';
+import { chunkText, DEFAULT_MAX_CHUNK_CHARS } from './text-chunker';
+import { normalizeText, type NormalizerOptions } from './text-normalizer';
+import { getTtsProvider, type SynthesizeOptions, type TtsProvider } from './tts-provider';
+import { encodeWav } from './wav-encoder';
+
+interface VoiceSettings {
+  voice?: string;
+  speed?: number;
+  pitch?: number;
+  stability?: number;
+  clarity?: number;
+  model?: string;
+  style?: number;
+  speakerBoost?: boolean;
+  seed?: number | null;
+}
+
+export type GenerationStatus = 'idle' | 'queued' | 'running' | 'completed' | 'cancelled' | 'failed';
+
+export interface GenerationProgress {
+  completedChunks: number;
+  totalChunks: number;
+  receivedBytes: number;
+  /** 0..1, counting partially downloaded chunks when their size is known */
+  fraction: number;
+}
+
+export interface GenerationOptions {
+  provider?: TtsProvider;
+  maxChunkChars?: number;
+  /** How generateSpeech reads the text; defaults to editor markup */
+  textFormat?: TextFormat;
+  /** Enabled dictionaries are sent as locators when possible, otherwise substituted */
+  dictionaries?: PronunciationDictionary[];
+  /** Spell out numbers, dates, money and the like; off when omitted */
+  normalization?: NormalizerOptions;
+  concurrency?: number;
+  signal?: AbortSignal;
+  onProgress?: (progress: GenerationProgress) => void;
+  /** Called with each chunk's audio as soon as it arrives, possibly out of order */
+  onChunk?: (index: number, blob: Blob) => void;
+  /**
+   * Pitch applied to the whole track. Speed only applies to plain request
+   * lists; parts carry their own tempo.
+   */
+  effects?: SpeedPitchSettings;
+}
+
+/**
+ * One step of a generation: a provider request, or a pause between requests
+ */
+export type SpeechPart =
+  | {
+      type: 'speech';
+      request: VoiceRequest;
+      /** Tempo applied after synthesis when the provider can't render the speed */
+      tempo: number;
+      /** Pitch of this part alone, e.g. one speaker of a script */
+      pitch?: number;
+    }
+  | { type: 'silence'; durationMs: number };
+
+export interface GenerationResult {
+  blob: Blob;
+  parts: SpeechPart[];
+  /** Word timing for captions, from the provider where it reports any */
+  captions: CaptionTrack;
+  /** How much faster the track is than the raw chunks played back to back */
+  appliedSpeed: number;
+}
+
+/**
+ * Whether an error came from an aborted request
+ */
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === 'AbortError';
+
+const throwIfAborted = (signal?: AbortSignal): void => {
+  if (signal?.aborted) {
+    throw new DOMException('Generation was cancelled', 'AbortError');
+  }
+};
+
+/**
+ * Run an async task over items with at most `limit` in flight, keeping order.
+ * The first failure stops the rest: no new tasks start, and the signal passed
+ * to tasks still running is aborted.
+ */
+const mapWithConcurrency = async <T, R>(
+  items: T[],
+  limit: number,
+  task: (item: T, index: number, signal: AbortSignal) => Promise<R>,
+  signal?: AbortSignal
+): Promise<R[]> => {
+  const results = new Array<R>(items.length);
+  const controller = new AbortController();
+  const abort = () => controller.abort(signal?.reason);
+  let nextIndex = 0;
+
+  if (signal?.aborted) abort();
+  signal?.addEventListener('abort', abort, { once: true });
+
+  const worker = async () => {
+    while (nextIndex < items.length) {
+      throwIfAborted(signal);
+      // Another task failed; its error is the one reported
+      if (controller.signal.aborted) return;
+
+      const index = nextIndex++;
+      try {
+        results[index] = await task(items[index], index, controller.signal);
+      } catch (error) {
+        controller.abort();
+        throw error;
+      }
+    }
+  };
+
+  try {
+    const workerCount = Math.max(1, Math.min(limit, items.length));
+    await Promise.all(Array.from({ length: workerCount }, worker));
+    return results;
+  } finally {
+    signal?.removeEventListener('abort', abort);
+  }
+};
+
+const providerSupportsSpeed = (provider: TtsProvider, speed: number): boolean =>
+  provider.speedRange !== null && speed >= provider.speedRange[0] && speed <= provider.speedRange[1];
+
+const silentChunk = (durationMs: number): Blob => {
+  const sampleRate = 22050;
+  return encodeWav([new Float32Array(Math.round((durationMs / 1000) * sampleRate))], sampleRate);
+};
+
+/**
+ * Where a part ended up in the track, and how long its raw audio was, in seconds
+ */
+interface PartTiming {
+  start: number;
+  end: number;
+  sourceDuration: number;
+}
+
+/**
+ * Decode, time-stretch and join the parts into one WAV track, then shift pitch.
+ * Also returns how much faster the result is than the raw chunks back to back,
+ * and where each part sits in the track.
+ */
+const renderParts = async (
+  parts: SpeechPart[],
+  blobs: (Blob | null)[],
+  pitch: number
+): Promise<{ blob: Blob; appliedSpeed: number; timings: PartTiming[] }> => {
+  const audioContext = new AudioContext();
+  try {
+    const sampleRate = audioContext.sampleRate;
+    const pieces: Float32Array[][] = [];
+    const timings: PartTiming[] = [];
+    let sourceLength = 0;
+    let position = 0;
+
+    for (const [index, part] of parts.entries()) {
+      if (part.type === 'silence') {
+        const silence = new Float32Array(Math.round((part.durationMs / 1000) * sampleRate));
+        pieces.push([silence]);
+        sourceLength += silence.length;
+        timings.push({ start: position, end: position + silence.length / sampleRate, sourceDuration: silence.length / sampleRate });
+        position += silence.length / sampleRate;
+        continue;
+      }
+
+      const buffer = await decodeAudioBlob(blobs[index]!, audioContext);
+      const channels = Array.from({ length: buffer.numberOfChannels }, (_, channel) => buffer.getChannelData(channel));
+      const piece = part.pitch !== undefined && part.pitch !== 1
+        ? await renderSpeedAndPitch(channels, sampleRate, { speed: part.tempo, pitch: part.pitch })
+        : timeStretch(channels, sampleRate, part.tempo);
+      pieces.push(piece);
+      sourceLength += buffer.length;
+      timings.push({ start: position, end: position + piece[0].length / sampleRate, sourceDuration: buffer.duration });
+      position += piece[0].length / sampleRate;
+    }
+
+    const joined = concatenateChannels(pieces);
+    const shifted = await renderSpeedAndPitch(joined, sampleRate, { speed: 1, pitch });
+    const length = joined[0].length;
+
+    return {
+      blob: encodeWav(shifted, sampleRate),
+      appliedSpeed: length > 0 ? sourceLength / length : 1,
+      timings,
+    };
+  } finally {
+    await audioContext.close();
+  }
+};
+
+const measurePart = async (blob: Blob): Promise<PartTiming> => {
+  const { duration } = await decodeAudioBlob(blob);
+  return { start: 0, end: duration, sourceDuration: duration };
+};
+
+/**
+ * Word timing for the whole track: provider timing moved to where each part
+ * landed and scaled by its tempo, or the part's span spread over its words.
+ * Without timings the track is a single chunk played as delivered.
+ */
+const buildCaptionTrack = (
+  parts: SpeechPart[],
+  alignments: (CharacterAlignment | null)[],
+  timings: PartTiming[] | null
+): CaptionTrack => {
+  let estimated = false;
+
+  const words = parts.flatMap((part, index) => {
+    if (part.type === 'silence') return [];
+
+    const alignment = alignments[index];
+    const timing = timings?.[index];
+    if (alignment) {
+      const scale = timing && timing.sourceDuration > 0 ? (timing.end - timing.start) / timing.sourceDuration : 1;
+      return alignmentToWords(alignment, timing?.start ?? 0, scale);
+    }
+
+    estimated = true;
+    return timing ? estimateWords(part.request.text, timing.start, timing.end) : [];
+  });
+
+  return { words, estimated };
+};
+
+const INLINE_PATTERN = new RegExp(INLINE_MARKER, 'g');
+
+// ElevenLabs accepts at most three dictionaries per request
+const MAX_DICTIONARY_LOCATORS = 3;
+
+/**
+ * Parse the editor text into segments for the provider.
+ * Throws when SSML has errors, since guessing at broken markup would speak it.
+ */
+const textToSegments = (text: string, format: TextFormat, provider: TtsProvider): SpeechSegment[] => {
+  if (format === 'markup') {
+    return renderSegments(parseMarkup(text).nodes, provider.ssmlElements);
+  }
+
+  const { nodes, issues } = parseSsml(text);
+  const error = issues.find(issue => issue.severity === 'error');
+  if (error) {
+    throw new Error(`Invalid SSML: ${error.message}`);
+  }
+  return renderSsmlSegments(nodes, provider.ssmlElements);
+};
+
+/**
+ * Split marked-up text into provider requests and pauses.
+ * Speech segments are chunked under the character limit and each chunk is
+ * sent with its neighbours as context. Speed, including the slower rate of
+ * [slow] sections, goes to the provider when it supports the value and is
+ * otherwise left for client-side stretching.
+ */
+export const buildSpeechParts = (
+  text: string,
+  settings: VoiceSettings,
+  options: Pick<GenerationOptions, 'provider' | 'maxChunkChars' | 'textFormat' | 'dictionaries' | 'normalization'> = {}
+): SpeechPart[] => {
+  const provider = options.provider ?? getTtsProvider();
+
+  const dictionaries = (options.dictionaries ?? []).filter(dictionary => dictionary.enabled);
+  const located = provider.pronunciationLocators
+    ? dictionaries.filter(dictionary => dictionary.locator?.pronunciation_dictionary_id && dictionary.locator.version_id)
+    : [];
+  const substituted = dictionaries.filter(dictionary => !located.includes(dictionary));
+  const locators = located.map(dictionary => dictionary.locator!).slice(0, MAX_DICTIONARY_LOCATORS);
+
+  // Dictionary rules go first so they can override how the normalizer reads a term
+  const segments = textToSegments(text, options.textFormat ?? 'markup', provider).map((segment): SpeechSegment => {
+    const pronounced = applyPronunciationRules(segment, substituted, provider.ssmlElements.includes('phoneme'));
+    if (pronounced.type === 'silence' || !options.normalization) return pronounced;
+    return { ...pronounced, text: normalizeText(pronounced.text, options.normalization) };
+  });
+
+  const pieces = segments.flatMap((segment): SpeechSegment[] => {
+    if (segment.type === 'silence') return [segment];
+
+    // Hand each chunk the inline elements whose markers it contains
+    let inlineIndex = 0;
+    return chunkText(segment.text, options.maxChunkChars ?? DEFAULT_MAX_CHUNK_CHARS).map(chunk => {
+      const count = chunk.split(INLINE_MARKER).length - 1;
+      const inline = segment.inline?.slice(inlineIndex, inlineIndex + count);
+      inlineIndex += count;
+      return { type: 'speech', text: chunk, rate: segment.rate, inline };
+    });
+  });
+  const chunks = pieces.flatMap(piece => (piece.type === 'speech' ? [piece.text.replace(INLINE_PATTERN, ' ')] : []));
+
+  let chunkIndex = 0;
+  return pieces.map((piece): SpeechPart => {
+    if (piece.type === 'silence') return piece;
+
+    const request = buildVoiceRequest(piece.text, settings, {
+      previousText: chunks[chunkIndex - 1] ?? null,
+      nextText: chunks[chunkIndex + 1] ?? null,
+    });
+    request.pronunciation_dictionary_locators = locators;
+    chunkIndex++;
+
+    // Restored after cleaning so the tags survive
+    let inlineIndex = 0;
+    request.text = request.text.replace(INLINE_PATTERN, () => piece.inline?.[inlineIndex++] ?? '');
+
+    const speed = (settings.speed ?? 1) * piece.rate;
+    if (speed !== 1 && providerSupportsSpeed(provider, speed)) {
+      return { type: 'speech', request: { ...request, voice_settings: { ...request.voice_settings, speed } }, tempo: 1 };
+    }
+    return { type: 'speech', request, tempo: speed };
+  });
+};
+
+/**
+ * Give every request in the parts the same seed
+ */
+export const reseedParts = (parts: SpeechPart[], seed: number | null): SpeechPart[] =>
+  parts.map(part => (part.type === 'speech' ? { ...part, request: { ...part.request, seed } } : part));
+
+/**
+ * Synthesize and assemble previously built parts, e.g. when regenerating
+ * from history
+ */
+export const generateFromParts = async (
+  parts: SpeechPart[],
+  options: GenerationOptions = {}
+): Promise<GenerationResult> => {
+  const provider = options.provider ?? getTtsProvider();
+  const speechIndexes = parts.flatMap((part, index) => (part.type === 'speech' ? [index] : []));
+
+  if (speechIndexes.length === 0) {
+    throw new Error('Nothing to generate');
+  }
+
+  // Per-chunk completion (0..1) and downloaded bytes
+  const chunkFractions = new Array<number>(speechIndexes.length).fill(0);
+  const chunkBytes = new Array<number>(speechIndexes.length).fill(0);
+
+  const reportProgress = () => {
+    options.onProgress?.({
+      completedChunks: chunkFractions.filter(fraction => fraction === 1).length,
+      totalChunks: speechIndexes.length,
+      receivedBytes: chunkBytes.reduce((sum, bytes) => sum + bytes, 0),
+      fraction: chunkFractions.reduce((sum, fraction) => sum + fraction, 0) / speechIndexes.length,
+    });
+  };
+
+  throwIfAborted(options.signal);
+  reportProgress();
+
+  // Pauses are ready straight away so live playback keeps its rhythm
+  parts.forEach((part, index) => {
+    if (part.type === 'silence') options.onChunk?.(index, silentChunk(part.durationMs));
+  });
+
+  const results = await mapWithConcurrency(speechIndexes, options.concurrency ?? 1, async (partIndex, index, signal) => {
+    const part = parts[partIndex] as Extract<SpeechPart, { type: 'speech' }>;
+    const synthesizeOptions: SynthesizeOptions = {
+      signal,
+      onDownloadProgress: (receivedBytes, totalBytes) => {
+        chunkBytes[index] = receivedBytes;
+        if (totalBytes) {
+          // Hold back the last percent until the body has been fully read
+          chunkFractions[index] = Math.min(0.99, receivedBytes / totalBytes);
+        }
+        reportProgress();
+      },
+    };
+    const result = provider.synthesizeWithAlignment
+      ? await provider.synthesizeWithAlignment(part.request, synthesizeOptions)
+      : { blob: await provider.synthesize(part.request, synthesizeOptions), alignment: null };
+    chunkFractions[index] = 1;
+    chunkBytes[index] = result.blob.size;
+    reportProgress();
+    options.onChunk?.(partIndex, result.blob);
+    return result;
+  }, options.signal);
+  const speechBlobs = results.map(result => result.blob);
+
+  const blobs = parts.map(() => null as Blob | null);
+  const alignments = parts.map(() => null as CharacterAlignment | null);
+  speechIndexes.forEach((partIndex, index) => {
+    blobs[partIndex] = results[index].blob;
+    alignments[partIndex] = results[index].alignment;
+  });
+
+  const pitch = options.effects?.pitch ?? 1;
+  const [onlyPart] = parts;
+  const untouched = parts.length === 1 && onlyPart.type === 'speech' &&
+    !needsSpeedPitchProcessing({ speed: onlyPart.tempo, pitch: pitch * (onlyPart.pitch ?? 1) });
+
+  // A single unprocessed chunk keeps the provider's original encoding
+  const { blob, appliedSpeed, timings } = untouched
+    ? {
+        blob: speechBlobs[0],
+        appliedSpeed: 1,
+        // Only measured when there is no timing to take the length from
+        timings: alignments[0] ? null : [await measurePart(speechBlobs[0])],
+      }
+    : await renderParts(parts, blobs, pitch);
+  throwIfAborted(options.signal);
+
+  return { blob, parts, captions: buildCaptionTrack(parts, alignments, timings), appliedSpeed };
+};
+
+/**
+ * Generate speech for marked-up or SSML text of any length.
+ * Text is split into chunks and pauses, synthesized, and joined into a single
+ * track with speed and pitch applied.
+ */
+export const generateSpeech = (
+  text: string,
+  settings: VoiceSettings,
+  options: GenerationOptions = {}
+): Promise<GenerationResult> => {
+  const provider = options.provider ?? getTtsProvider();
+  const parts = buildSpeechParts(text, settings, { ...options, provider });
+
+  return generateFromParts(parts, {
+    ...options,
+    provider,
+    effects: { speed: settings.speed ?? 1, pitch: settings.pitch ?? 1 },
+  });
+};
+
+/**
+ * Build the parts of a multi-speaker script: each line in its speaker's
+ * voice and settings, with silence between lines
+ */
+export const buildScriptParts = (
+  text: string,
+  script: ScriptSettings,
+  options: Pick<GenerationOptions, 'provider' | 'maxChunkChars' | 'dictionaries' | 'normalization'> = {}
+): SpeechPart[] => {
+  const { lines } = parseScript(text);
+  const parts: SpeechPart[] = [];
+
+  lines.forEach((line, index) => {
+    const settings = script.cast[line.speaker];
+    if (!settings) {
+      throw new Error(`No voice is assigned to ${line.speaker}`);
+    }
+
+    if (index > 0) {
+      const gap = line.speaker === lines[index - 1].speaker
+        ? script.gaps.sameSpeakerMs
+        : script.gaps.speakerChangeMs;
+      if (gap > 0) parts.push({ type: 'silence', durationMs: gap });
+    }
+
+    for (const part of buildSpeechParts(line.text, settings, { ...options, textFormat: 'markup' })) {
+      parts.push(part.type === 'speech' ? { ...part, pitch: settings.pitch } : part);
+    }
+  });
+
+  return parts;
+};
+
+/**
+ * Generate a multi-speaker script as a single dialogue track
+ */
+export const generateScript = (
+  text: string,
+  script: ScriptSettings,
+  options: GenerationOptions = {}
+): Promise<GenerationResult> => {
+  const provider = options.provider ?? getTtsProvider();
+  const parts = buildScriptParts(text, script, { ...options, provider });
+
+  // Speed and pitch are per speaker, carried by the parts
+  return generateFromParts(parts, { ...options, provider, effects: undefined });
+};
+
+/**
+ * Random seed in the range providers accept (unsigned 32-bit)
+ */
+export const randomSeed = (): number => Math.floor(Math.random() * 4294967295);
@@ -0,0 +1,122 @@
+/**
+ * Search, filter and sort for generation history
+ */
+
+import { findMatchingPreset, VOICE_PRESETS, type PresetSettings, type VoicePreset } from './voice-presets';
+
+interface HistoryItem {
+  text: string;
+  voice: string;
+  duration: number;
+  createdAt: Date;
+  settings: PresetSettings & { voice?: string };
+}
+
+export type HistorySort = 'newest' | 'oldest' | 'longest' | 'shortest' | 'voice';
+
+export interface HistoryFilters {
+  query: string;
+  /** Voice id, or 'all'; scripts match any voice in their cast */
+  voice: string;
+  /** Preset name, 'custom' for settings matching no preset, or 'all' */
+  preset: string;
+  /** Inclusive YYYY-MM-DD bounds in local time */
+  dateFrom: string;
+  dateTo: string;
+  /** Seconds; null means unbounded */
+  minDuration: number | null;
+  maxDuration: number | null;
+}
+
+export const DEFAULT_HISTORY_FILTERS: HistoryFilters = {
+  query: '',
+  voice: 'all',
+  preset: 'all',
+  dateFrom: '',
+  dateTo: '',
+  minDuration: null,
+  maxDuration: null,
+};
+
+/**
+ * Whether any filter narrows the list
+ */
+export const hasActiveFilters = (filters: HistoryFilters): boolean =>
+  filters.query.trim() !== '' ||
+  filters.voice !== 'all' ||
+  filters.preset !== 'all' ||
+  filters.dateFrom !== '' ||
+  filters.dateTo !== '' ||
+  filters.minDuration !== null ||
+  filters.maxDuration !== null;
+
+/**
+ * Voices of a history item; scripts list every voice of their cast
+ */
+export const historyItemVoices = (voice: string): string[] =>
+  voice.split(',').map(name => name.trim()).filter(name => name.length > 0);
+
+const parseLocalDate = (value: string, endOfDay: boolean): number | null => {
+  const [year, month, day] = value.split('-').map(Number);
+  if (!year || !month || !day) return null;
+  return endOfDay
+    ? new Date(year, month - 1, day, 23, 59, 59, 999).getTime()
+    : new Date(year, month - 1, day).getTime();
+};
+
+const matchesFilters = (item: HistoryItem, filters: HistoryFilters, presets: VoicePreset[]): boolean => {
+  // Every search term must appear in the text or voice name
+  const terms = filters.query.toLowerCase().split(/\s+/).filter(term => term.length > 0);
+  if (terms.length > 0) {
+    const haystack = `${item.text} ${item.voice}`.toLowerCase();
+    if (!terms.every(term => haystack.includes(term))) return false;
+  }
+
+  if (filters.voice !== 'all' && !historyItemVoices(item.voice).includes(filters.voice)) return false;
+
+  if (filters.preset !== 'all') {
+    const preset = findMatchingPreset(item.settings, presets);
+    if (filters.preset === 'custom' ? preset !== null : preset?.name !== filters.preset) return false;
+  }
+
+  const createdAt = item.createdAt.getTime();
+  const from = filters.dateFrom ? parseLocalDate(filters.dateFrom, false) : null;
+  const to = filters.dateTo ? parseLocalDate(filters.dateTo, true) : null;
+  if (from !== null && createdAt < from) return false;
+  if (to !== null && createdAt > to) return false;
+
+  if (filters.minDuration !== null && item.duration < filters.minDuration) return false;
+  if (filters.maxDuration !== null && item.duration > filters.maxDuration) return false;
+
+  return true;
+};
+
+const compareItems = (a: HistoryItem, b: HistoryItem, sort: HistorySort): number => {
+  switch (sort) {
+    case 'oldest':
+      return a.createdAt.getTime() - b.createdAt.getTime();
+    case 'longest':
+      return b.duration - a.duration;
+    case 'shortest':
+      return a.duration - b.duration;
+    case 'voice':
+      return a.voice.localeCompare(b.voice) || b.createdAt.getTime() - a.createdAt.getTime();
+    case 'newest':
+    default:
+      return b.createdAt.getTime() - a.createdAt.getTime();
+  }
+};
+
+/**
+ * Apply filters and sorting without mutating the input. Preset filters match
+ * against `presets`, which should include the user's own.
+ */
+export const filterHistory = <T extends HistoryItem>(
+  items: T[],
+  filters: HistoryFilters,
+  sort: HistorySort = 'newest',
+  presets: VoicePreset[] = VOICE_PRESETS
+): T[] =>
+  items
+    .filter(item => matchesFilters(item, filters, presets))
+    .sort((a, b) => compareItems(a, b, sort));
@@ -0,0 +1,208 @@
+/**
+ * Persistent generation history backed by IndexedDB
+ */
+
+import type { CaptionTrack } from './captions';
+import type { SpeechPart } from './generation';
+import type { TextFormat } from './markup';
+import type { ScriptSettings } from './script';
+
+const DB_NAME = 'voicegen';
+const DB_VERSION = 1;
+const STORE_NAME = 'generations';
+
+interface VoiceSettings {
+  voice: string;
+  speed: number;
+  pitch: number;
+  stability: number;
+  clarity: number;
+  model?: string;
+  style?: number;
+  speakerBoost?: boolean;
+  seed?: number | null;
+  seedLocked?: boolean;
+}
+
+export interface StoredGeneration {
+  id: string;
+  text: string;
+  voice: string;
+  format: string;
+  duration: number;
+  createdAt: Date;
+  settings: VoiceSettings;
+  /** 'markup' when missing */
+  textFormat?: TextFormat;
+  /** Cast and gaps of a multi-speaker script */
+  script?: ScriptSettings;
+  /** Requests and pauses as generated */
+  parts?: SpeechPart[];
+  /** Word timing for captions; missing on entries saved before it was recorded */
+  captions?: CaptionTrack;
+  size: number;
+  blob: Blob;
+}
+
+export type EvictionPolicy = 'oldest' | 'largest';
+
+export interface HistoryStoreOptions {
+  /** Total audio bytes kept before evicting */
+  maxBytes: number;
+  /** Number of generations kept before evicting */
+  maxItems: number;
+  eviction: EvictionPolicy;
+}
+
+export interface HistoryUsage {
+  count: number;
+  usedBytes: number;
+  quotaBytes: number;
+}
+
+export const DEFAULT_HISTORY_OPTIONS: HistoryStoreOptions = {
+  maxBytes: 100 * 1024 * 1024,
+  maxItems: 200,
+  eviction: 'oldest',
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE_NAME)) {
+          const store = db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+          store.createIndex('createdAt', 'createdAt');
+        }
+      };
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error ?? new Error('Failed to open history database'));
+    });
+
+    // Allow a retry after a failed open
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+
+  return dbPromise;
+};
+
+/**
+ * Wrap an IDBRequest in a promise
+ */
+const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error('IndexedDB request failed'));
+  });
+
+const withStore = async <T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(STORE_NAME, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error ?? new Error('IndexedDB transaction failed'));
+    transaction.onabort = () => reject(transaction.error ?? new Error('IndexedDB transaction aborted'));
+  });
+
+  const result = await promisifyRequest(run(transaction.objectStore(STORE_NAME)));
+  await done;
+  return result;
+};
+
+/**
+ * All stored generations, newest first
+ */
+export const loadHistory = async (): Promise<StoredGeneration[]> => {
+  const records = await withStore('readonly', store => store.getAll() as IDBRequest<StoredGeneration[]>);
+  return records.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+};
+
+/**
+ * Delete a stored generation
+ */
+export const deleteGeneration = (id: string): Promise<undefined> =>
+  withStore('readwrite', store => store.delete(id));
+
+/**
+ * Delete every stored generation
+ */
+export const clearHistory = (): Promise<undefined> =>
+  withStore('readwrite', store => store.clear());
+
+/**
+ * Pick records to evict so the remaining set fits the quota
+ */
+const selectEvictions = (
+  records: StoredGeneration[],
+  options: HistoryStoreOptions,
+  keepId: string
+): string[] => {
+  const candidates = records
+    .filter(record => record.id !== keepId)
+    .sort((a, b) =>
+      options.eviction === 'largest'
+        ? b.size - a.size
+        : a.createdAt.getTime() - b.createdAt.getTime()
+    );
+
+  let usedBytes = records.reduce((sum, record) => sum + record.size, 0);
+  let count = records.length;
+  const evicted: string[] = [];
+
+  for (const candidate of candidates) {
+    if (usedBytes <= options.maxBytes && count <= options.maxItems) break;
+    evicted.push(candidate.id);
+    usedBytes -= candidate.size;
+    count--;
+  }
+
+  return evicted;
+};
+
+/**
+ * Save a generation and evict older entries over the quota.
+ * Returns the ids that were evicted so callers can release their URLs.
+ */
+export const saveGeneration = async (
+  record: StoredGeneration,
+  options: HistoryStoreOptions = DEFAULT_HISTORY_OPTIONS
+): Promise<string[]> => {
+  await withStore('readwrite', store => store.put(record));
+
+  const evicted = selectEvictions(await loadHistory(), options, record.id);
+  for (const id of evicted) {
+    await deleteGeneration(id);
+  }
+
+  return evicted;
+};
+
+/**
+ * Storage used by the history against its quota
+ */
+export const getHistoryUsage = async (
+  options: HistoryStoreOptions = DEFAULT_HISTORY_OPTIONS
+): Promise<HistoryUsage> => {
+  const records = await loadHistory();
+  return {
+    count: records.length,
+    usedBytes: records.reduce((sum, record) => sum + record.size, 0),
+    quotaBytes: options.maxBytes,
+  };
+};
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { INLINE_MARKER, SLOW_RATE, parseMarkup, renderSegments } from './markup';
+import type { SsmlElementName } from './ssml';
+
+const messages = (source: string, nativeElements: SsmlElementName[] = []): string[] =>
+  parseMarkup(source, nativeElements).warnings.map(warning => warning.message);
+
+describe('parseMarkup', () => {
+  it('parses emphasis, pauses and slow sections', () => {
+    expect(parseMarkup('Hi *there*... [slow]now[/slow]').nodes).toEqual([
+      { type: 'text', text: 'Hi ' },
+      { type: 'emphasis', children: [{ type: 'text', text: 'there' }] },
+      { type: 'pause', durationMs: 500 },
+      { type: 'text', text: ' ' },
+      { type: 'slow', children: [{ type: 'text', text: 'now' }] },
+    ]);
+  });
+
+  it('keeps arithmetic asterisks as text without a warning', () => {
+    expect(parseMarkup('5 * 3 and 2*3').nodes).toEqual([{ type: 'text', text: '5 * 3 and 2*3' }]);
+    expect(messages('5 * 3 and 2*3')).toEqual([]);
+  });
+
+  it('warns about an asterisk without a partner', () => {
+    const { nodes, warnings } = parseMarkup('*unclosed emphasis');
+    expect(nodes).toEqual([{ type: 'text', text: '*unclosed emphasis' }]);
+    expect(warnings).toEqual([{ message: '* has no matching marker and is read as written', start: 0, end: 1 }]);
+    expect(messages('stray* here')).toEqual(['* has no matching marker and is read as written']);
+  });
+
+  it('warns when the provider has no emphasis control', () => {
+    expect(parseMarkup('a *b* c').warnings).toEqual([
+      { message: 'The voice provider has no emphasis control, so this is spoken normally', start: 2, end: 5 },
+    ]);
+    expect(messages('a *b* c', ['emphasis'])).toEqual([]);
+  });
+
+  it('warns about unknown tags and unclosed sections', () => {
+    expect(messages('[loud]hi')).toHaveLength(1);
+    expect(messages('[slow]hi')).toHaveLength(1);
+  });
+});
+
+describe('renderSegments', () => {
+  it('turns pauses into silence and slows [slow] sections', () => {
+    expect(renderSegments(parseMarkup('One... [slow]two[/slow]').nodes)).toEqual([
+      { type: 'speech', text: 'One', rate: 1 },
+      { type: 'silence', durationMs: 500 },
+      { type: 'speech', text: 'two', rate: SLOW_RATE },
+    ]);
+  });
+
+  it('keeps native pauses and emphasis inline', () => {
+    expect(renderSegments(parseMarkup('One... *a&b*').nodes, ['break', 'emphasis'])).toEqual([
+      {
+        type: 'speech',
+        text: `One${INLINE_MARKER} ${INLINE_MARKER}`,
+        rate: 1,
+        inline: ['<break time="500ms"/>', '<emphasis level="moderate">a&amp;b</emphasis>'],
+      },
+    ]);
+  });
+
+  it('speaks emphasis as plain text without native support', () => {
+    expect(renderSegments(parseMarkup('a *b* c').nodes)).toEqual([{ type: 'speech', text: 'a b c', rate: 1 }]);
+  });
+});
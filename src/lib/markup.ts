@@ -0,0 +1,254 @@
+/**
+ * Editor markup: *emphasis*, ... pauses and [slow]...[/slow]
+ */
+
+import type { SsmlElementName } from './ssml';
+
+export type MarkupNode =
+  | { type: 'text'; text: string }
+  | { type: 'emphasis'; children: MarkupNode[] }
+  | { type: 'slow'; children: MarkupNode[] }
+  | { type: 'pause'; durationMs: number };
+
+export interface MarkupWarning {
+  message: string;
+  /** Character range in the source text */
+  start: number;
+  end: number;
+}
+
+export interface ParsedMarkup {
+  nodes: MarkupNode[];
+  warnings: MarkupWarning[];
+}
+
+export type SpeechSegment =
+  | {
+      type: 'speech';
+      text: string;
+      /** Relative speaking rate, 1 is normal */
+      rate: number;
+      /** Provider-native SSML, one entry per INLINE_MARKER in text */
+      inline?: string[];
+    }
+  | { type: 'silence'; durationMs: number };
+
+/** Placeholder for an inline SSML element; never split and never cleaned */
+export const INLINE_MARKER = '\uE000';
+
+export type TextFormat = 'markup' | 'ssml';
+
+/** Speaking rate inside [slow] */
+export const SLOW_RATE = 0.75;
+
+/** "..." pauses for this long; each extra dot adds PAUSE_STEP_MS */
+const PAUSE_MS = 500;
+const PAUSE_STEP_MS = 250;
+const MAX_PAUSE_MS = 3000;
+
+type ContainerType = 'emphasis' | 'slow';
+
+interface OpenFrame {
+  type: ContainerType;
+  children: MarkupNode[];
+  start: number;
+  end: number;
+  marker: string;
+}
+
+const TAG_PATTERN = /^\[(\/?)([a-z][a-z0-9-]*)\]/i;
+const PAUSE_PATTERN = /^(?:\.{3,}|…+)/;
+/** An opening * needs a word right after it and a closing * later on */
+const EMPHASIS_OPEN_PATTERN = /^\*+(?=[^\s*])[\s\S]*?[^\s*]\*/;
+
+/**
+ * Parse editor markup into an AST.
+ * Unknown [tags] are dropped and unbalanced markers are closed or ignored,
+ * each with a warning pointing at the offending text. Emphasis is flagged
+ * too when the provider can't render it.
+ */
+export const parseMarkup = (source: string, nativeElements: SsmlElementName[] = []): ParsedMarkup => {
+  const warnings: MarkupWarning[] = [];
+  const root: MarkupNode[] = [];
+  const stack: OpenFrame[] = [];
+  let text = '';
+
+  const current = () => (stack.length > 0 ? stack[stack.length - 1].children : root);
+
+  const flushText = () => {
+    if (text) current().push({ type: 'text', text });
+    text = '';
+  };
+
+  const open = (type: ContainerType, start: number, marker: string) => {
+    flushText();
+    stack.push({ type, children: [], start, end: start + marker.length, marker });
+  };
+
+  const close = (type: ContainerType, start: number, marker: string) => {
+    const depth = stack.map(frame => frame.type).lastIndexOf(type);
+    if (depth === -1) {
+      warnings.push({ message: `${marker} has no matching opening marker and was ignored`, start, end: start + marker.length });
+      return;
+    }
+
+    flushText();
+    while (stack.length > depth) {
+      const frame = stack.pop()!;
+      if (frame.type !== type) {
+        warnings.push({
+          message: `${frame.marker} was closed early by ${marker}`,
+          start: frame.start,
+          end: frame.end,
+        });
+      } else if (type === 'emphasis' && !nativeElements.includes('emphasis')) {
+        warnings.push({
+          message: 'The voice provider has no emphasis control, so this is spoken normally',
+          start: frame.start,
+          end: start + marker.length,
+        });
+      }
+      current().push({ type: frame.type, children: frame.children });
+    }
+  };
+
+  let index = 0;
+  while (index < source.length) {
+    const rest = source.slice(index);
+
+    const tag = rest.match(TAG_PATTERN);
+    if (tag) {
+      const [marker, slash, name] = tag;
+      if (name.toLowerCase() === 'slow') {
+        if (slash) close('slow', index, marker);
+        else open('slow', index, marker);
+      } else {
+        warnings.push({ message: `Unsupported tag ${marker} was removed`, start: index, end: index + marker.length });
+      }
+      index += marker.length;
+      continue;
+    }
+
+    const pause = rest.match(PAUSE_PATTERN);
+    if (pause) {
+      const dots = pause[0].startsWith('…') ? pause[0].length * 3 : pause[0].length;
+      flushText();
+      current().push({
+        type: 'pause',
+        durationMs: Math.min(MAX_PAUSE_MS, PAUSE_MS + (dots - 3) * PAUSE_STEP_MS),
+      });
+      index += pause[0].length;
+      continue;
+    }
+
+    if (source[index] === '*') {
+      // Markdown-style ** is treated like a single *. A * that doesn't hug a
+      // word, as in "5 * 3", is plain text.
+      const marker = rest.match(/^\*+/)![0];
+      const before = source[index - 1];
+      const inEmphasis = stack.some(frame => frame.type === 'emphasis');
+
+      if (inEmphasis && before !== undefined && /\S/.test(before)) {
+        close('emphasis', index, marker);
+        index += marker.length;
+        continue;
+      }
+      if (!inEmphasis && (before === undefined || !/[A-Za-z0-9]/.test(before)) && EMPHASIS_OPEN_PATTERN.test(rest)) {
+        open('emphasis', index, marker);
+        index += marker.length;
+        continue;
+      }
+
+      // Hugging a word on one side looks like emphasis missing its partner
+      const after = source[index + marker.length];
+      const hugsAfter = after !== undefined && /\S/.test(after) && (before === undefined || !/[A-Za-z0-9]/.test(before));
+      const hugsBefore = before !== undefined && /\S/.test(before) && (after === undefined || !/[A-Za-z0-9]/.test(after));
+      if (hugsAfter || hugsBefore) {
+        warnings.push({
+          message: `${marker} has no matching marker and is read as written`,
+          start: index,
+          end: index + marker.length,
+        });
+      }
+
+      text += marker;
+      index += marker.length;
+      continue;
+    }
+
+    text += source[index];
+    index++;
+  }
+
+  flushText();
+  while (stack.length > 0) {
+    const frame = stack.pop()!;
+    warnings.push({
+      message: `${frame.marker} is never closed; it runs to the end of the text`,
+      start: frame.start,
+      end: frame.end,
+    });
+    current().push({ type: frame.type, children: frame.children });
+  }
+
+  return { nodes: root, warnings };
+};
+
+const escapeXml = (value: string): string =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+const textContent = (nodes: MarkupNode[]): string =>
+  nodes.map(node => (node.type === 'text' ? node.text : node.type === 'pause' ? ' ' : textContent(node.children))).join('');
+
+/**
+ * Flatten the AST into speech and silence segments. Pauses and emphasis stay
+ * inline as SSML when the provider supports it; otherwise pauses become
+ * silence and emphasized text is spoken as-is.
+ */
+export const renderSegments = (nodes: MarkupNode[], nativeElements: SsmlElementName[] = []): SpeechSegment[] => {
+  const segments: SpeechSegment[] = [];
+
+  const speechAt = (rate: number) => {
+    const last = segments[segments.length - 1];
+    if (last?.type === 'speech' && last.rate === rate) return last;
+
+    const segment: SpeechSegment & { type: 'speech' } = { type: 'speech', text: '', rate };
+    segments.push(segment);
+    return segment;
+  };
+
+  const pushSpeech = (text: string, rate: number) => {
+    speechAt(rate).text += text;
+  };
+
+  const pushInline = (ssml: string, rate: number) => {
+    const segment = speechAt(rate);
+    segment.text += INLINE_MARKER;
+    segment.inline = [...(segment.inline ?? []), ssml];
+  };
+
+  const pushSilence = (durationMs: number) => {
+    const last = segments[segments.length - 1];
+    if (last?.type === 'silence') {
+      last.durationMs += durationMs;
+    } else {
+      segments.push({ type: 'silence', durationMs });
+    }
+  };
+
+  const walk = (children: MarkupNode[], rate: number) => {
+    for (const node of children) {
+      if (node.type === 'text') pushSpeech(node.text, rate);
+      else if (node.type === 'pause' && nativeElements.includes('break')) pushInline(`<break time="${node.durationMs}ms"/>`, rate);
+      else if (node.type === 'pause') pushSilence(node.durationMs);
+      else if (node.type === 'emphasis' && nativeElements.includes('emphasis')) {
+        pushInline(`<emphasis level="moderate">${escapeXml(textContent(node.children))}</emphasis>`, rate);
+      } else walk(node.children, node.type === 'slow' ? SLOW_RATE : rate);
+    }
+  };
+
+  walk(nodes, 1);
+
+  // Whitespace between markers isn't worth a request of its own
+  return segments.filter(segment => segment.type === 'silence' || segment.text.trim() !== '');
+};
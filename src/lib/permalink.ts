@@ -0,0 +1,180 @@
+/**
+ * Shareable editor setups: text, voice and settings packed into a URL
+ * fragment, so links work with the static export and never reach a server
+ */
+
+import type { TextFormat } from './markup';
+import { DEFAULT_SCRIPT_GAPS, type ScriptSettings } from './script';
+
+interface VoiceSettings {
+  voice: string;
+  speed: number;
+  pitch: number;
+  stability: number;
+  clarity: number;
+  model?: string;
+  style?: number;
+  speakerBoost?: boolean;
+  seed?: number | null;
+  seedLocked?: boolean;
+}
+
+export interface EditorSnapshot {
+  text: string;
+  textFormat: TextFormat;
+  settings: VoiceSettings;
+  /** Present when the editor is in script mode */
+  script?: ScriptSettings;
+}
+
+interface SnapshotFile extends EditorSnapshot {
+  version: 1;
+}
+
+const FRAGMENT_PREFIX = '#setup=';
+
+/** Longer links get cut off by chat apps and mail clients */
+export const MAX_PERMALINK_LENGTH = 8000;
+
+export const SETUP_FILE_EXTENSION = '.voicegen.json';
+
+// Compressed payloads start with "z.", plain ones (no CompressionStream) with "j."
+const COMPRESSED_TAG = 'z.';
+const PLAIN_TAG = 'j.';
+
+const toBase64Url = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (value: string): Uint8Array => {
+  const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+const pipeBytes = async (bytes: Uint8Array, transform: CompressionStream | DecompressionStream): Promise<Uint8Array> =>
+  new Uint8Array(await new Response(new Blob([bytes]).stream().pipeThrough(transform)).arrayBuffer());
+
+const asNumber = (value: unknown, fallback: number): number =>
+  typeof value === 'number' && Number.isFinite(value) ? value : fallback;
+
+/**
+ * Keep only known settings with the right types; anything else in a link or
+ * file is dropped
+ */
+const pickSettings = (value: unknown): VoiceSettings => {
+  const settings = (value ?? {}) as Partial<Record<keyof VoiceSettings, unknown>>;
+  const picked: VoiceSettings = {
+    voice: typeof settings.voice === 'string' && settings.voice ? settings.voice : 'rachel',
+    speed: asNumber(settings.speed, 1),
+    pitch: asNumber(settings.pitch, 1),
+    stability: asNumber(settings.stability, 0.75),
+    clarity: asNumber(settings.clarity, 0.75),
+  };
+  if (typeof settings.model === 'string') picked.model = settings.model;
+  if (typeof settings.style === 'number') picked.style = asNumber(settings.style, 0);
+  if (typeof settings.speakerBoost === 'boolean') picked.speakerBoost = settings.speakerBoost;
+  if (typeof settings.seed === 'number') picked.seed = asNumber(settings.seed, 0);
+  if (typeof settings.seedLocked === 'boolean') picked.seedLocked = settings.seedLocked;
+  return picked;
+};
+
+/**
+ * Serialize a setup for a link or a setup file
+ */
+export const serializeSnapshot = (snapshot: EditorSnapshot): string => {
+  const file: SnapshotFile = { version: 1, ...snapshot };
+  return JSON.stringify(file);
+};
+
+/**
+ * Read a setup from a link or a setup file
+ */
+export const parseSnapshot = (json: string): EditorSnapshot => {
+  let file: Partial<SnapshotFile>;
+  try {
+    file = JSON.parse(json);
+  } catch {
+    throw new Error('The setup is not valid JSON');
+  }
+
+  if (!file || typeof file.text !== 'string') {
+    throw new Error('The setup has no text');
+  }
+  if (file.version !== 1) {
+    throw new Error('The setup was made by a newer version of the app');
+  }
+
+  const snapshot: EditorSnapshot = {
+    text: file.text,
+    textFormat: file.textFormat === 'ssml' ? 'ssml' : 'markup',
+    settings: pickSettings(file.settings),
+  };
+
+  if (file.script) {
+    const cast = file.script.cast && typeof file.script.cast === 'object' ? file.script.cast : {};
+    snapshot.script = {
+      cast: Object.fromEntries(Object.entries(cast).map(([speaker, settings]) => [speaker, pickSettings(settings)])),
+      gaps: {
+        sameSpeakerMs: asNumber(file.script.gaps?.sameSpeakerMs, DEFAULT_SCRIPT_GAPS.sameSpeakerMs),
+        speakerChangeMs: asNumber(file.script.gaps?.speakerChangeMs, DEFAULT_SCRIPT_GAPS.speakerChangeMs),
+      },
+    };
+  }
+
+  return snapshot;
+};
+
+/**
+ * Link that opens the editor with this setup, or null when it would be
+ * longer than MAX_PERMALINK_LENGTH; share a setup file instead
+ */
+export const createPermalink = async (
+  snapshot: EditorSnapshot,
+  baseUrl: string = window.location.href
+): Promise<string | null> => {
+  const bytes = new TextEncoder().encode(serializeSnapshot(snapshot));
+  const payload = typeof CompressionStream === 'undefined'
+    ? PLAIN_TAG + toBase64Url(bytes)
+    : COMPRESSED_TAG + toBase64Url(await pipeBytes(bytes, new CompressionStream('deflate-raw')));
+
+  const url = baseUrl.split('#')[0] + FRAGMENT_PREFIX + payload;
+  return url.length <= MAX_PERMALINK_LENGTH ? url : null;
+};
+
+export const hasPermalink = (hash: string): boolean => hash.startsWith(FRAGMENT_PREFIX);
+
+/**
+ * Setup carried by a URL fragment; null when the fragment isn't a setup link
+ */
+export const readPermalink = async (hash: string): Promise<EditorSnapshot | null> => {
+  if (!hasPermalink(hash)) return null;
+
+  const payload = hash.slice(FRAGMENT_PREFIX.length);
+  const compressed = payload.startsWith(COMPRESSED_TAG);
+  if (!compressed && !payload.startsWith(PLAIN_TAG)) {
+    throw new Error('Unknown setup link format');
+  }
+  if (compressed && typeof DecompressionStream === 'undefined') {
+    throw new Error('This browser cannot open compressed setup links');
+  }
+
+  let bytes: Uint8Array;
+  try {
+    // Both tags are the same length
+    const data = fromBase64Url(payload.slice(COMPRESSED_TAG.length));
+    bytes = compressed ? await pipeBytes(data, new DecompressionStream('deflate-raw')) : data;
+  } catch {
+    // Usually a link cut short when it was pasted
+    throw new Error('The setup link is incomplete or damaged');
+  }
+
+  return parseSnapshot(new TextDecoder().decode(bytes));
+};
@@ -0,0 +1,57 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { createDictionary, parsePls, toPls, type PronunciationRule } from './pronunciation';
+
+const rule = (word: string, kind: PronunciationRule['kind'], replacement: string): PronunciationRule => ({
+  id: word,
+  word,
+  kind,
+  replacement,
+  caseSensitive: false,
+  wholeWord: true,
+});
+
+describe('toPls', () => {
+  it('writes aliases and phonemes, skipping empty rules', () => {
+    const dictionary = {
+      ...createDictionary('Names'),
+      rules: [rule('AT&T', 'alias', 'A T and T'), rule('tomato', 'phoneme', 'təˈmɑːtoʊ'), rule(' ', 'alias', 'x')],
+    };
+    expect(toPls(dictionary, 'en-GB')).toBe([
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<lexicon version="1.0" xmlns="http://www.w3.org/2005/01/pronunciation-lexicon" alphabet="ipa" xml:lang="en-GB">',
+      '  <lexeme>\n    <grapheme>AT&amp;T</grapheme>\n    <alias>A T and T</alias>\n  </lexeme>',
+      '  <lexeme>\n    <grapheme>tomato</grapheme>\n    <phoneme>təˈmɑːtoʊ</phoneme>\n  </lexeme>',
+      '</lexicon>',
+      '',
+    ].join('\n'));
+  });
+});
+
+describe('parsePls', () => {
+  it('reads back an exported dictionary as case-sensitive rules', () => {
+    const exported = toPls({ ...createDictionary('Names'), alphabet: 'x-sampa', rules: [rule('AT&T', 'alias', 'A T and T')] });
+    const dictionary = parsePls(exported, 'Imported');
+    expect(dictionary.name).toBe('Imported');
+    expect(dictionary.alphabet).toBe('x-sampa');
+    expect(dictionary.rules).toEqual([
+      { id: expect.any(String), word: 'AT&T', kind: 'alias', replacement: 'A T and T', caseSensitive: true, wholeWord: true },
+    ]);
+  });
+
+  it('makes a rule for every grapheme and skips lexemes without a pronunciation', () => {
+    const xml = `<lexicon version="1.0" xmlns="http://www.w3.org/2005/01/pronunciation-lexicon" alphabet="ipa">
+      <lexeme><grapheme>colour</grapheme><grapheme>color</grapheme><phoneme>ˈkʌlə</phoneme></lexeme>
+      <lexeme><grapheme>nothing</grapheme></lexeme>
+    </lexicon>`;
+    expect(parsePls(xml, 'Spelling').rules.map(item => [item.word, item.kind, item.replacement])).toEqual([
+      ['colour', 'phoneme', 'ˈkʌlə'],
+      ['color', 'phoneme', 'ˈkʌlə'],
+    ]);
+  });
+
+  it('rejects files that are not PLS lexicons', () => {
+    expect(() => parsePls('<lexicon>', 'Broken')).toThrow('not valid XML');
+    expect(() => parsePls('<dictionary/>', 'Other')).toThrow('not a PLS lexicon');
+  });
+});
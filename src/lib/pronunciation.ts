@@ -0,0 +1,243 @@
+/**
+ * Pronunciation dictionaries: word rules, text substitution and PLS files
+ */
+
+import { INLINE_MARKER, type SpeechSegment } from './markup';
+
+export type PronunciationAlphabet = 'ipa' | 'x-sampa';
+
+export interface PronunciationRule {
+  id: string;
+  /** Written form to match */
+  word: string;
+  /** 'alias' replaces the word with other text; 'phoneme' gives its sounds */
+  kind: 'alias' | 'phoneme';
+  replacement: string;
+  caseSensitive: boolean;
+  wholeWord: boolean;
+}
+
+export interface DictionaryLocator {
+  pronunciation_dictionary_id: string;
+  version_id: string;
+}
+
+export interface PronunciationDictionary {
+  id: string;
+  name: string;
+  enabled: boolean;
+  alphabet: PronunciationAlphabet;
+  rules: PronunciationRule[];
+  /** Set once the exported .pls has been uploaded to the provider */
+  locator?: DictionaryLocator;
+}
+
+const STORAGE_KEY = 'voicegen:pronunciation';
+const PLS_NAMESPACE = 'http://www.w3.org/2005/01/pronunciation-lexicon';
+
+export const createId = (): string => Date.now().toString(36) + Math.random().toString(36).slice(2, 8);
+
+export const createDictionary = (name: string): PronunciationDictionary => ({
+  id: createId(),
+  name,
+  enabled: true,
+  alphabet: 'ipa',
+  rules: [],
+});
+
+export const createRule = (): PronunciationRule => ({
+  id: createId(),
+  word: '',
+  kind: 'alias',
+  replacement: '',
+  caseSensitive: false,
+  wholeWord: true,
+});
+
+/**
+ * Saved dictionaries, or an empty list when nothing is stored
+ */
+export const loadDictionaries = (): PronunciationDictionary[] => {
+  if (typeof window === 'undefined') return [];
+
+  try {
+    const saved = JSON.parse(window.localStorage.getItem(STORAGE_KEY) || '[]');
+    return Array.isArray(saved) ? saved : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveDictionaries = (dictionaries: PronunciationDictionary[]): void => {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(dictionaries));
+  } catch (error) {
+    console.error('Failed to save pronunciation dictionaries:', error);
+  }
+};
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const escapeXml = (value: string): string =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const ruleToPattern = (rule: PronunciationRule): RegExp => {
+  const word = escapeRegExp(rule.word.trim());
+  // Built at runtime: lookbehind and \p{} are newer than the compile target
+  const source = rule.wholeWord ? `(?<![\\p{L}\\p{N}_])${word}(?![\\p{L}\\p{N}_])` : word;
+  return new RegExp(source, rule.caseSensitive ? 'gu' : 'giu');
+};
+
+interface RuleMatch {
+  start: number;
+  end: number;
+  rule: PronunciationRule;
+}
+
+/**
+ * Non-overlapping matches, preferring the earliest and then the longest
+ */
+const findMatches = (text: string, rules: PronunciationRule[]): RuleMatch[] => {
+  const candidates: RuleMatch[] = [];
+  for (const rule of rules) {
+    if (!rule.word.trim() || !rule.replacement.trim()) continue;
+    for (const match of text.matchAll(ruleToPattern(rule))) {
+      candidates.push({ start: match.index!, end: match.index! + match[0].length, rule });
+    }
+  }
+
+  candidates.sort((a, b) => a.start - b.start || b.end - a.end);
+
+  const matches: RuleMatch[] = [];
+  let position = 0;
+  for (const candidate of candidates) {
+    if (candidate.start < position) continue;
+    matches.push(candidate);
+    position = candidate.end;
+  }
+  return matches;
+};
+
+/**
+ * Apply dictionary rules to a speech segment.
+ * Aliases become plain text. Phoneme rules become inline <phoneme> elements
+ * when the provider reads them, and are left alone otherwise since the raw
+ * phonetic string would be spoken letter by letter.
+ */
+export const applyPronunciationRules = (
+  segment: SpeechSegment,
+  dictionaries: PronunciationDictionary[],
+  nativePhonemes: boolean
+): SpeechSegment => {
+  if (segment.type !== 'speech') return segment;
+
+  const rules = dictionaries.flatMap(dictionary =>
+    dictionary.rules
+      .filter(rule => rule.kind === 'alias' || nativePhonemes)
+      .map(rule => ({ rule, alphabet: dictionary.alphabet }))
+  );
+  if (rules.length === 0) return segment;
+
+  const alphabets = new Map(rules.map(({ rule, alphabet }) => [rule.id, alphabet]));
+  const matches = findMatches(segment.text, rules.map(({ rule }) => rule));
+  if (matches.length === 0) return segment;
+
+  const existingInline = segment.inline ?? [];
+  const inline: string[] = [];
+  let existingIndex = 0;
+  let text = '';
+  let position = 0;
+
+  // Copy text across, keeping existing inline markers in step with their SSML
+  const copy = (until: number) => {
+    const chunk = segment.text.slice(position, until);
+    const markers = chunk.split(INLINE_MARKER).length - 1;
+    inline.push(...existingInline.slice(existingIndex, existingIndex + markers));
+    existingIndex += markers;
+    text += chunk;
+    position = until;
+  };
+
+  for (const { start, end, rule } of matches) {
+    copy(start);
+    const word = segment.text.slice(start, end);
+
+    if (rule.kind === 'alias') {
+      text += rule.replacement;
+    } else {
+      text += INLINE_MARKER;
+      inline.push(
+        `<phoneme alphabet="${alphabets.get(rule.id)}" ph="${escapeXml(rule.replacement)}">${escapeXml(word)}</phoneme>`
+      );
+    }
+    position = end;
+  }
+  copy(segment.text.length);
+
+  return { ...segment, text, inline: inline.length > 0 ? inline : undefined };
+};
+
+/**
+ * Serialize a dictionary as a W3C Pronunciation Lexicon (.pls).
+ * PLS has no notion of case sensitivity or partial matches, so those flags
+ * are not exported.
+ */
+export const toPls = (dictionary: PronunciationDictionary, lang: string = 'en-US'): string => {
+  const lexemes = dictionary.rules
+    .filter(rule => rule.word.trim() && rule.replacement.trim())
+    .map(rule => {
+      const body = rule.kind === 'alias'
+        ? `<alias>${escapeXml(rule.replacement)}</alias>`
+        : `<phoneme>${escapeXml(rule.replacement)}</phoneme>`;
+      return `  <lexeme>\n    <grapheme>${escapeXml(rule.word.trim())}</grapheme>\n    ${body}\n  </lexeme>`;
+    });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<lexicon version="1.0" xmlns="${PLS_NAMESPACE}" alphabet="${dictionary.alphabet}" xml:lang="${escapeXml(lang)}">`,
+    ...lexemes,
+    '</lexicon>',
+    '',
+  ].join('\n');
+};
+
+/**
+ * Parse a .pls file into a dictionary. Every grapheme of a lexeme becomes its
+ * own case-sensitive, whole-word rule, matching how PLS lexicons are applied.
+ */
+export const parsePls = (xml: string, name: string): PronunciationDictionary => {
+  const document = new DOMParser().parseFromString(xml, 'application/xml');
+  if (document.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('The file is not valid XML');
+  }
+
+  const lexicon = document.documentElement;
+  if (lexicon.localName !== 'lexicon') {
+    throw new Error('The file is not a PLS lexicon');
+  }
+
+  const alphabet = lexicon.getAttribute('alphabet')?.toLowerCase() === 'x-sampa' ? 'x-sampa' : 'ipa';
+  const dictionary: PronunciationDictionary = { ...createDictionary(name), alphabet };
+
+  for (const lexeme of Array.from(lexicon.getElementsByTagNameNS('*', 'lexeme'))) {
+    const alias = lexeme.getElementsByTagNameNS('*', 'alias')[0]?.textContent?.trim();
+    const phoneme = lexeme.getElementsByTagNameNS('*', 'phoneme')[0]?.textContent?.trim();
+    if (!alias && !phoneme) continue;
+
+    for (const grapheme of Array.from(lexeme.getElementsByTagNameNS('*', 'grapheme'))) {
+      const word = grapheme.textContent?.trim();
+      if (!word) continue;
+
+      dictionary.rules.push({
+        id: createId(),
+        word,
+        kind: alias ? 'alias' : 'phoneme',
+        replacement: (alias || phoneme)!,
+        caseSensitive: true,
+        wholeWord: true,
+      });
+    }
+  }
+
+  return dictionary;
+};
@@ -0,0 +1,155 @@
+/**
+ * Multi-speaker scripts: "SPEAKER: line" blocks, each read by its own voice
+ */
+
+import { parseMarkup, type MarkupWarning } from './markup';
+import type { SsmlElementName } from './ssml';
+
+interface VoiceSettings {
+  voice: string;
+  speed: number;
+  pitch: number;
+  stability: number;
+  clarity: number;
+  model?: string;
+  style?: number;
+  speakerBoost?: boolean;
+  seed?: number | null;
+  seedLocked?: boolean;
+}
+
+export interface ScriptLine {
+  speaker: string;
+  /** Markup text of the block, as written */
+  text: string;
+  /** Position of the text in the source */
+  start: number;
+}
+
+export interface ParsedScript {
+  lines: ScriptLine[];
+  /** In order of first appearance */
+  speakers: string[];
+  warnings: MarkupWarning[];
+}
+
+export interface ScriptGaps {
+  /** Silence between consecutive lines of the same speaker */
+  sameSpeakerMs: number;
+  /** Silence when the speaker changes */
+  speakerChangeMs: number;
+}
+
+/** Voice settings for every speaker, keyed by speaker name */
+export type ScriptCast = Record<string, VoiceSettings>;
+
+export interface ScriptSettings {
+  cast: ScriptCast;
+  gaps: ScriptGaps;
+}
+
+export const DEFAULT_SCRIPT_GAPS: ScriptGaps = {
+  sameSpeakerMs: 250,
+  speakerChangeMs: 500,
+};
+
+export const MAX_SCRIPT_GAP_MS = 3000;
+
+// Names are written in capitals, like a screenplay, so "Note: ..." stays text
+const SPEAKER_PATTERN = /^([ \t]*)([A-Z][A-Z0-9 _.'-]{0,31}?)[ \t]*:[ \t]*/;
+
+/**
+ * Split a script into speaker blocks.
+ * A "NAME:" prefix starts a block; following lines belong to it until the
+ * next name. Blank lines split a block into separate lines of the same
+ * speaker. Markup warnings take the provider's native elements into account.
+ */
+export const parseScript = (source: string, nativeElements: SsmlElementName[] = []): ParsedScript => {
+  const lines: ScriptLine[] = [];
+  const speakers: string[] = [];
+  const warnings: MarkupWarning[] = [];
+
+  let speaker: string | null = null;
+  let current: { start: number; end: number } | null = null;
+
+  const flush = () => {
+    if (speaker && current) {
+      const text = source.slice(current.start, current.end).trimEnd();
+      if (text.trim()) lines.push({ speaker, text, start: current.start });
+    }
+    current = null;
+  };
+
+  let offset = 0;
+  for (const line of source.split('\n')) {
+    const lineStart = offset;
+    const lineEnd = offset + line.length;
+    offset = lineEnd + 1;
+
+    const tag = line.match(SPEAKER_PATTERN);
+    if (tag) {
+      flush();
+      speaker = tag[2].trim();
+      if (!speakers.includes(speaker)) speakers.push(speaker);
+      current = { start: lineStart + tag[0].length, end: lineEnd };
+      continue;
+    }
+
+    if (!line.trim()) {
+      flush();
+      continue;
+    }
+
+    if (!speaker) {
+      warnings.push({
+        message: 'Text before the first speaker is not read; start the line with a name like "RACHEL:"',
+        start: lineStart,
+        end: lineEnd,
+      });
+      continue;
+    }
+
+    const textStart = lineStart + (line.length - line.trimStart().length);
+    current = current ? { start: current.start, end: lineEnd } : { start: textStart, end: lineEnd };
+  }
+  flush();
+
+  // Markup inside each line, reported at its position in the script
+  for (const line of lines) {
+    for (const warning of parseMarkup(line.text, nativeElements).warnings) {
+      warnings.push({ ...warning, start: warning.start + line.start, end: warning.end + line.start });
+    }
+  }
+
+  return { lines, speakers, warnings };
+};
+
+/**
+ * Give every speaker voice settings, keeping existing assignments.
+ * New speakers get the voice sharing their name, or else the first voice
+ * nobody uses yet.
+ */
+export const assignVoices = (
+  speakers: string[],
+  cast: ScriptCast,
+  voiceIds: string[],
+  defaults: VoiceSettings
+): ScriptCast => {
+  // Speakers edited out of the script keep their settings in case they return
+  const assigned: ScriptCast = { ...cast };
+
+  // Speakers named after a voice first, so nobody else takes it
+  for (const speaker of speakers) {
+    const named = voiceIds.find(id => id.toLowerCase() === speaker.toLowerCase());
+    if (!assigned[speaker] && named) assigned[speaker] = { ...defaults, voice: named };
+  }
+
+  for (const speaker of speakers) {
+    if (assigned[speaker]) continue;
+
+    const used = new Set(Object.values(assigned).map(settings => settings.voice));
+    assigned[speaker] = { ...defaults, voice: voiceIds.find(id => !used.has(id)) ?? defaults.voice };
+  }
+
+  return assigned;
+};
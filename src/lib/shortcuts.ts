@@ -0,0 +1,207 @@
+/**
+ * Keyboard shortcut bindings: defaults, matching and persistence
+ */
+
+export type ShortcutAction =
+  | 'playPause'
+  | 'seekBackward'
+  | 'seekForward'
+  | 'volumeUp'
+  | 'volumeDown'
+  | 'generate'
+  | 'rewind'
+  | 'togglePlay'
+  | 'fastForward'
+  | 'showHelp';
+
+export interface ShortcutDefinition {
+  action: ShortcutAction;
+  label: string;
+  group: 'Playback' | 'Editor' | 'General';
+}
+
+export type ShortcutBindings = Record<ShortcutAction, string>;
+
+export const SHORTCUT_DEFINITIONS: ShortcutDefinition[] = [
+  { action: 'playPause', label: 'Play / pause', group: 'Playback' },
+  { action: 'seekBackward', label: 'Seek back 5s', group: 'Playback' },
+  { action: 'seekForward', label: 'Seek forward 5s', group: 'Playback' },
+  { action: 'volumeUp', label: 'Volume up', group: 'Playback' },
+  { action: 'volumeDown', label: 'Volume down', group: 'Playback' },
+  { action: 'rewind', label: 'Rewind 10s', group: 'Playback' },
+  { action: 'togglePlay', label: 'Play / pause (transport)', group: 'Playback' },
+  { action: 'fastForward', label: 'Forward 10s', group: 'Playback' },
+  { action: 'generate', label: 'Generate voice', group: 'Editor' },
+  { action: 'showHelp', label: 'Show shortcuts', group: 'General' },
+];
+
+export const DEFAULT_SHORTCUT_BINDINGS: ShortcutBindings = {
+  playPause: 'Space',
+  seekBackward: 'ArrowLeft',
+  seekForward: 'ArrowRight',
+  volumeUp: 'ArrowUp',
+  volumeDown: 'ArrowDown',
+  generate: 'Ctrl+Enter',
+  rewind: 'j',
+  togglePlay: 'k',
+  fastForward: 'l',
+  showHelp: '?',
+};
+
+const STORAGE_KEY = 'voicegen:shortcuts';
+const MODIFIER_KEYS = new Set(['Control', 'Meta', 'Alt', 'Shift']);
+
+/**
+ * Binding string for a key event, e.g. "Ctrl+Enter", "Space" or "?".
+ * Cmd counts as Ctrl so defaults work on macOS. Shift is only recorded for
+ * named keys, since printable characters already reflect it.
+ * Returns null for lone modifier presses.
+ */
+export const eventToBinding = (event: KeyboardEvent): string | null => {
+  if (MODIFIER_KEYS.has(event.key)) return null;
+
+  const key = event.key === ' ' ? 'Space' : event.key.length === 1 ? event.key.toLowerCase() : event.key;
+  const printable = event.key.length === 1 && event.key !== ' ';
+  const parts: string[] = [];
+
+  if (event.ctrlKey || event.metaKey) parts.push('Ctrl');
+  if (event.altKey) parts.push('Alt');
+  if (event.shiftKey && !printable) parts.push('Shift');
+  parts.push(key);
+
+  return parts.join('+');
+};
+
+const KEY_LABELS: Record<string, string> = {
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+};
+
+/**
+ * Human-readable form of a binding
+ */
+export const formatBinding = (binding: string): string =>
+  binding
+    .split('+')
+    .map(part => KEY_LABELS[part] ?? (part.length === 1 ? part.toUpperCase() : part))
+    .join(' + ');
+
+/**
+ * Whether a binding uses Ctrl or Alt, which makes it safe while typing
+ */
+export const hasCommandModifier = (binding: string): boolean =>
+  binding.startsWith('Ctrl+') || binding.startsWith('Alt+');
+
+/**
+ * Whether the event target is a text field or editable region
+ */
+export const isTypingTarget = (target: EventTarget | null): boolean => {
+  if (!(target instanceof HTMLElement)) return false;
+  if (target.isContentEditable) return true;
+  if (target instanceof HTMLTextAreaElement || target instanceof HTMLSelectElement) return true;
+  if (target instanceof HTMLInputElement) {
+    return !['checkbox', 'radio', 'button', 'submit', 'reset', 'range'].includes(target.type);
+  }
+  return false;
+};
+
+/**
+ * Whether the focused control already handles the key itself, e.g. Space on a
+ * button or arrows on a slider, so the global shortcut must not also fire
+ */
+export const isHandledByTarget = (target: EventTarget | null, binding: string): boolean => {
+  if (!(target instanceof HTMLElement)) return false;
+
+  if (target.closest('[role="dialog"], [role="alertdialog"], [role="menu"]')) return true;
+
+  if (binding === 'Space' || binding === 'Enter') {
+    return target.closest('button, a[href], [role="button"], [role="checkbox"], [role="switch"], [role="option"]') !== null;
+  }
+
+  if (binding.startsWith('Arrow')) {
+    return target.closest('[role="slider"], [role="listbox"], [role="radiogroup"], [role="tablist"], [role="combobox"]') !== null;
+  }
+
+  return false;
+};
+
+/**
+ * Fraction (0..0.9) for a digit key, or null
+ */
+export const digitToFraction = (binding: string): number | null =>
+  /^[0-9]$/.test(binding) ? Number(binding) / 10 : null;
+
+/**
+ * Action bound to a key, if any
+ */
+export const findShortcutAction = (bindings: ShortcutBindings, binding: string): ShortcutAction | null =>
+  (Object.keys(bindings) as ShortcutAction[]).find(action => bindings[action] === binding) ?? null;
+
+/**
+ * Bindings saved in localStorage merged over the defaults
+ */
+export const loadShortcutBindings = (): ShortcutBindings => {
+  if (typeof window === 'undefined') return DEFAULT_SHORTCUT_BINDINGS;
+
+  try {
+    const saved = JSON.parse(window.localStorage.getItem(STORAGE_KEY) || '{}') as Partial<ShortcutBindings>;
+    const bindings = { ...DEFAULT_SHORTCUT_BINDINGS };
+    for (const { action } of SHORTCUT_DEFINITIONS) {
+      if (typeof saved[action] === 'string') bindings[action] = saved[action];
+    }
+    return bindings;
+  } catch {
+    return DEFAULT_SHORTCUT_BINDINGS;
+  }
+};
+
+let currentBindings: ShortcutBindings | null = null;
+const listeners = new Set<() => void>();
+
+/**
+ * Current bindings, shared by every component using shortcuts
+ */
+export const getShortcutBindings = (): ShortcutBindings => {
+  if (!currentBindings) currentBindings = loadShortcutBindings();
+  return currentBindings;
+};
+
+/**
+ * Replace the bindings and persist them
+ */
+export const setShortcutBindings = (bindings: ShortcutBindings): void => {
+  currentBindings = bindings;
+
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(bindings));
+  } catch (error) {
+    console.error('Failed to save keyboard shortcuts:', error);
+  }
+
+  listeners.forEach(listener => listener());
+};
+
+/**
+ * Bind an action to a key. Any other action on the same key is left unbound,
+ * and an empty binding disables the action.
+ */
+export const rebindShortcut = (action: ShortcutAction, binding: string): void => {
+  const bindings = { ...getShortcutBindings() };
+  const conflict = findShortcutAction(bindings, binding);
+  if (conflict && conflict !== action) bindings[conflict] = '';
+  bindings[action] = binding;
+  setShortcutBindings(bindings);
+};
+
+export const resetShortcutBindings = (): void => {
+  setShortcutBindings({ ...DEFAULT_SHORTCUT_BINDINGS });
+};
+
+export const subscribeShortcutBindings = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
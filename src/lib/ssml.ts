@@ -0,0 +1,429 @@
+/**
+ * SSML authoring: validating parser and provider-aware downgrading
+ */
+
+import { INLINE_MARKER, type SpeechSegment } from './markup';
+
+export type SsmlElementName =
+  | 'speak'
+  | 'break'
+  | 'prosody'
+  | 'say-as'
+  | 'phoneme'
+  | 'emphasis'
+  | 'sub'
+  | 'p'
+  | 's';
+
+export type SsmlNode =
+  | { type: 'text'; text: string }
+  | {
+      type: 'element';
+      name: SsmlElementName;
+      attributes: Record<string, string>;
+      children: SsmlNode[];
+    };
+
+export interface SsmlIssue {
+  severity: 'error' | 'warning';
+  message: string;
+  /** Character range in the source text */
+  start: number;
+  end: number;
+}
+
+export interface ParsedSsml {
+  nodes: SsmlNode[];
+  issues: SsmlIssue[];
+}
+
+interface ElementRule {
+  attributes: Record<string, RegExp | null>;
+  required?: string[];
+  empty?: boolean;
+}
+
+const BREAK_STRENGTHS: Record<string, number> = {
+  none: 0,
+  'x-weak': 100,
+  weak: 250,
+  medium: 500,
+  strong: 750,
+  'x-strong': 1000,
+};
+
+const PROSODY_RATES: Record<string, number> = {
+  'x-slow': 0.5,
+  slow: 0.75,
+  medium: 1,
+  default: 1,
+  fast: 1.25,
+  'x-fast': 1.5,
+};
+
+const MAX_BREAK_MS = 10000;
+
+const ELEMENT_RULES: Record<SsmlElementName, ElementRule> = {
+  speak: { attributes: { version: null, 'xml:lang': null, xmlns: null } },
+  break: {
+    attributes: {
+      time: /^\d+(\.\d+)?(ms|s)$/,
+      strength: /^(none|x-weak|weak|medium|strong|x-strong)$/,
+    },
+    empty: true,
+  },
+  prosody: {
+    attributes: {
+      rate: /^(x-slow|slow|medium|fast|x-fast|default|[+-]?\d+(\.\d+)?%)$/,
+      pitch: /^(x-low|low|medium|high|x-high|default|[+-]?\d+(\.\d+)?(%|st|Hz))$/,
+      volume: /^(silent|x-soft|soft|medium|loud|x-loud|default|[+-]?\d+(\.\d+)?dB)$/,
+    },
+  },
+  'say-as': {
+    attributes: {
+      'interpret-as': /^(characters|spell-out|cardinal|number|ordinal|digits|fraction|unit|date|time|telephone|address|interjection|expletive|verbatim)$/,
+      format: null,
+      detail: null,
+    },
+    required: ['interpret-as'],
+  },
+  phoneme: { attributes: { alphabet: /^(ipa|x-sampa)$/, ph: null }, required: ['ph'] },
+  emphasis: { attributes: { level: /^(strong|moderate|reduced|none)$/ } },
+  sub: { attributes: { alias: null }, required: ['alias'] },
+  p: { attributes: {} },
+  s: { attributes: {} },
+};
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+const TAG_PATTERN = /^<(\/?)([a-zA-Z][\w:-]*)((?:\s+[\w:-]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/;
+const ATTRIBUTE_PATTERN = /([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+const ENTITY_PATTERN = /^&(amp|lt|gt|quot|apos|#\d+|#x[0-9a-fA-F]+);/;
+
+const isElementName = (name: string): name is SsmlElementName => name in ELEMENT_RULES;
+
+const decodeEntities = (value: string): string =>
+  value.replace(/&(amp|lt|gt|quot|apos|#\d+|#x[0-9a-fA-F]+);/g, (_, entity: string) => {
+    if (entity.startsWith('#x')) return String.fromCodePoint(parseInt(entity.slice(2), 16));
+    if (entity.startsWith('#')) return String.fromCodePoint(parseInt(entity.slice(1), 10));
+    return ENTITIES[entity];
+  });
+
+const escapeXml = (value: string): string =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const parseBreakTime = (time: string): number =>
+  time.endsWith('ms') ? parseFloat(time) : parseFloat(time) * 1000;
+
+interface OpenElement {
+  name: SsmlElementName;
+  attributes: Record<string, string>;
+  children: SsmlNode[];
+  start: number;
+  end: number;
+}
+
+/**
+ * Parse and validate SSML. The <speak> wrapper is optional.
+ * Errors make the document unusable; warnings are recoverable (unknown
+ * attributes or values are ignored).
+ */
+export const parseSsml = (source: string): ParsedSsml => {
+  const issues: SsmlIssue[] = [];
+  const root: SsmlNode[] = [];
+  const stack: OpenElement[] = [];
+  let text = '';
+
+  const current = () => (stack.length > 0 ? stack[stack.length - 1].children : root);
+
+  const flushText = () => {
+    if (text) current().push({ type: 'text', text });
+    text = '';
+  };
+
+  const validateAttributes = (name: SsmlElementName, attributes: Record<string, string>, start: number, end: number) => {
+    const rule = ELEMENT_RULES[name];
+
+    for (const [attribute, value] of Object.entries(attributes)) {
+      if (!(attribute in rule.attributes)) {
+        issues.push({ severity: 'warning', message: `<${name}> does not support the "${attribute}" attribute`, start, end });
+        continue;
+      }
+      const pattern = rule.attributes[attribute];
+      if (pattern && !pattern.test(value)) {
+        issues.push({ severity: 'error', message: `Invalid ${attribute}="${value}" on <${name}>`, start, end });
+      }
+    }
+
+    for (const attribute of rule.required ?? []) {
+      if (!(attribute in attributes)) {
+        issues.push({ severity: 'error', message: `<${name}> requires a "${attribute}" attribute`, start, end });
+      }
+    }
+
+    if (name === 'break' && attributes.time && parseBreakTime(attributes.time) > MAX_BREAK_MS) {
+      issues.push({ severity: 'error', message: `<break> can be at most ${MAX_BREAK_MS / 1000}s`, start, end });
+    }
+  };
+
+  let index = 0;
+  while (index < source.length) {
+    const rest = source.slice(index);
+    const char = source[index];
+
+    if (char === '<') {
+      // Comments and the XML declaration carry no speech
+      const skipped = rest.match(/^<!--[\s\S]*?-->/) ?? rest.match(/^<\?xml[\s\S]*?\?>/);
+      if (skipped) {
+        index += skipped[0].length;
+        continue;
+      }
+
+      const tag = rest.match(TAG_PATTERN);
+      if (!tag) {
+        issues.push({ severity: 'error', message: 'Unescaped "<"; write &lt; for a literal less-than sign', start: index, end: index + 1 });
+        text += char;
+        index++;
+        continue;
+      }
+
+      const [raw, closing, tagName, attributeSource, selfClosing] = tag;
+      const start = index;
+      const end = index + raw.length;
+      index = end;
+
+      if (!isElementName(tagName)) {
+        issues.push({ severity: 'error', message: `Unknown element <${tagName}>`, start, end });
+        continue;
+      }
+
+      if (closing) {
+        const depth = stack.map(element => element.name).lastIndexOf(tagName);
+        if (depth === -1) {
+          issues.push({ severity: 'error', message: `</${tagName}> has no matching opening tag`, start, end });
+          continue;
+        }
+
+        flushText();
+        while (stack.length > depth) {
+          const element = stack.pop()!;
+          if (element.name !== tagName) {
+            issues.push({ severity: 'error', message: `<${element.name}> must be closed before </${tagName}>`, start: element.start, end: element.end });
+          }
+          if (ELEMENT_RULES[element.name].empty && element.children.length > 0) {
+            issues.push({ severity: 'error', message: `<${element.name}> cannot contain text`, start: element.start, end: element.end });
+          }
+          current().push({ type: 'element', name: element.name, attributes: element.attributes, children: element.children });
+        }
+        continue;
+      }
+
+      const attributes: Record<string, string> = {};
+      for (const match of attributeSource.matchAll(ATTRIBUTE_PATTERN)) {
+        attributes[match[1]] = decodeEntities(match[2] ?? match[3] ?? '');
+      }
+      validateAttributes(tagName, attributes, start, end);
+
+      if (tagName === 'speak' && (stack.length > 0 || current().length > 0)) {
+        issues.push({ severity: 'warning', message: '<speak> should only wrap the whole document', start, end });
+      }
+
+      flushText();
+      if (selfClosing) {
+        current().push({ type: 'element', name: tagName, attributes, children: [] });
+      } else {
+        stack.push({ name: tagName, attributes, children: [], start, end });
+      }
+      continue;
+    }
+
+    if (char === '&') {
+      const entity = rest.match(ENTITY_PATTERN);
+      if (entity) {
+        text += decodeEntities(entity[0]);
+        index += entity[0].length;
+      } else {
+        issues.push({ severity: 'error', message: 'Unescaped "&"; write &amp; for a literal ampersand', start: index, end: index + 1 });
+        text += char;
+        index++;
+      }
+      continue;
+    }
+
+    text += char;
+    index++;
+  }
+
+  flushText();
+  while (stack.length > 0) {
+    const element = stack.pop()!;
+    issues.push({ severity: 'error', message: `<${element.name}> is never closed`, start: element.start, end: element.end });
+    current().push({ type: 'element', name: element.name, attributes: element.attributes, children: element.children });
+  }
+
+  return { nodes: root, issues };
+};
+
+const breakDuration = (attributes: Record<string, string>): number =>
+  attributes.time
+    ? Math.min(MAX_BREAK_MS, parseBreakTime(attributes.time))
+    : BREAK_STRENGTHS[attributes.strength ?? 'medium'] ?? BREAK_STRENGTHS.medium;
+
+const prosodyRate = (rate: string | undefined): number => {
+  if (!rate) return 1;
+  if (rate in PROSODY_RATES) return PROSODY_RATES[rate];
+
+  const percent = parseFloat(rate);
+  // "+20%" is relative to normal, "80%" is absolute
+  const factor = /^[+-]/.test(rate) ? 1 + percent / 100 : percent / 100;
+  return Math.max(0.25, Math.min(4, factor));
+};
+
+const textContent = (nodes: SsmlNode[]): string =>
+  nodes.map(node => (node.type === 'text' ? node.text : textContent(node.children))).join('');
+
+/**
+ * Spoken form of <say-as> content for providers that can't interpret it
+ */
+const interpretSayAs = (text: string, interpretAs: string): string => {
+  switch (interpretAs) {
+    case 'characters':
+    case 'spell-out':
+      return text.replace(/\s+/g, '').split('').join(' ');
+    case 'digits':
+      return text.replace(/\D+/g, '').split('').join(' ');
+    case 'telephone':
+      // Read each group digit by digit with a short pause between groups
+      return text
+        .split(/[^\d]+/)
+        .filter(group => group.length > 0)
+        .map(group => group.split('').join(' '))
+        .join(', ');
+    default:
+      return text;
+  }
+};
+
+const serializeSsml = (nodes: SsmlNode[]): string =>
+  nodes
+    .map(node => {
+      if (node.type === 'text') return escapeXml(node.text);
+      const attributes = Object.entries(node.attributes)
+        .map(([name, value]) => ` ${name}="${escapeXml(value)}"`)
+        .join('');
+      return node.children.length === 0
+        ? `<${node.name}${attributes}/>`
+        : `<${node.name}${attributes}>${serializeSsml(node.children)}</${node.name}>`;
+    })
+    .join('');
+
+/**
+ * Flatten SSML into speech and silence segments.
+ * Elements the provider supports are kept inline, each as one unsplittable
+ * token; everything else is downgraded: <break> becomes a silence segment,
+ * <prosody rate> a per-segment rate, <say-as> and <sub> their spoken text.
+ */
+export const renderSsmlSegments = (nodes: SsmlNode[], nativeElements: SsmlElementName[] = []): SpeechSegment[] => {
+  const segments: SpeechSegment[] = [];
+
+  const speechAt = (rate: number) => {
+    const last = segments[segments.length - 1];
+    if (last?.type === 'speech' && last.rate === rate) return last;
+
+    const segment: SpeechSegment & { type: 'speech' } = { type: 'speech', text: '', rate };
+    segments.push(segment);
+    return segment;
+  };
+
+  const pushSpeech = (text: string, rate: number) => {
+    speechAt(rate).text += text;
+  };
+
+  const pushInline = (ssml: string, rate: number) => {
+    const segment = speechAt(rate);
+    segment.text += INLINE_MARKER;
+    segment.inline = [...(segment.inline ?? []), ssml];
+  };
+
+  const pushSilence = (durationMs: number) => {
+    if (durationMs <= 0) return;
+    const last = segments[segments.length - 1];
+    if (last?.type === 'silence') {
+      last.durationMs += durationMs;
+    } else {
+      segments.push({ type: 'silence', durationMs });
+    }
+  };
+
+  const walk = (children: SsmlNode[], rate: number) => {
+    for (const node of children) {
+      if (node.type === 'text') {
+        pushSpeech(node.text, rate);
+        continue;
+      }
+
+      if (node.name !== 'speak' && nativeElements.includes(node.name)) {
+        pushInline(serializeSsml([node]), rate);
+        continue;
+      }
+
+      switch (node.name) {
+        case 'break':
+          pushSilence(breakDuration(node.attributes));
+          break;
+        case 'prosody':
+          walk(node.children, rate * prosodyRate(node.attributes.rate));
+          break;
+        case 'say-as':
+          pushSpeech(interpretSayAs(textContent(node.children), node.attributes['interpret-as']), rate);
+          break;
+        case 'sub':
+          pushSpeech(node.attributes.alias ?? textContent(node.children), rate);
+          break;
+        case 'p':
+        case 's':
+          walk(node.children, rate);
+          pushSpeech(' ', rate);
+          break;
+        default:
+          walk(node.children, rate);
+      }
+    }
+  };
+
+  walk(nodes, 1);
+
+  return segments.filter(segment => segment.type === 'silence' || segment.text.trim() !== '');
+};
+
+const DOWNGRADE_NOTES: Partial<Record<SsmlElementName, string>> = {
+  emphasis: 'spoken without emphasis',
+  phoneme: 'uses the written word instead of the pronunciation',
+  'say-as': 'is spelled out by the app where possible',
+  break: 'becomes inserted silence',
+  prosody: 'only keeps its rate; pitch and volume are ignored',
+};
+
+/**
+ * Elements used in the document that the provider doesn't render natively,
+ * with what happens to them instead
+ */
+export const describeSsmlDowngrades = (
+  nodes: SsmlNode[],
+  nativeElements: SsmlElementName[] = []
+): { element: SsmlElementName; note: string }[] => {
+  const used = new Set<SsmlElementName>();
+  const collect = (children: SsmlNode[]) => {
+    for (const node of children) {
+      if (node.type === 'element') {
+        used.add(node.name);
+        collect(node.children);
+      }
+    }
+  };
+  collect(nodes);
+
+  return [...used]
+    .filter(element => !nativeElements.includes(element) && DOWNGRADE_NOTES[element])
+    .map(element => ({ element, note: DOWNGRADE_NOTES[element]! }));
+};
@@ -0,0 +1,118 @@
+/**
+ * Gapless Web Audio playback of chunks while the rest are still generating
+ */
+
+import { decodeAudioBlob } from './audio-utils';
+
+export interface StreamingPlayback {
+  /** Queue a chunk; chunks play strictly in index order */
+  enqueue: (index: number, blob: Blob) => Promise<void>;
+  pause: () => Promise<void>;
+  resume: () => Promise<void>;
+  setVolume: (volume: number) => void;
+  isPaused: () => boolean;
+  /** Seconds of content already played */
+  getCurrentTime: () => number;
+  /** Seconds of content decoded and scheduled so far */
+  getBufferedDuration: () => number;
+  close: () => Promise<void>;
+}
+
+interface ScheduledSegment {
+  contextStart: number;
+  contentOffset: number;
+  duration: number;
+}
+
+/**
+ * Create a playback session. Call this from a user gesture so the browser
+ * allows the AudioContext to start.
+ */
+export const createStreamingPlayback = (): StreamingPlayback => {
+  const audioContext = new AudioContext();
+  const gain = audioContext.createGain();
+  gain.connect(audioContext.destination);
+
+  const pending = new Map<number, Blob>();
+  const segments: ScheduledSegment[] = [];
+  const sources: AudioBufferSourceNode[] = [];
+  let nextIndex = 0;
+  let nextContextStart = 0;
+  let bufferedDuration = 0;
+  let paused = false;
+  let closed = false;
+  // Serialises decoding so chunks are scheduled in order
+  let drain = Promise.resolve();
+
+  const scheduleReady = async () => {
+    while (!closed && pending.has(nextIndex)) {
+      const blob = pending.get(nextIndex)!;
+      pending.delete(nextIndex);
+      nextIndex++;
+
+      const buffer = await decodeAudioBlob(blob, audioContext);
+      if (closed) return;
+
+      // Small lead so the first chunk isn't clipped; later chunks butt up
+      // against the previous one unless playback has already caught up
+      const contextStart = Math.max(nextContextStart, audioContext.currentTime + 0.05);
+      const source = audioContext.createBufferSource();
+      source.buffer = buffer;
+      source.connect(gain);
+      source.start(contextStart);
+      sources.push(source);
+
+      segments.push({ contextStart, contentOffset: bufferedDuration, duration: buffer.duration });
+      nextContextStart = contextStart + buffer.duration;
+      bufferedDuration += buffer.duration;
+    }
+  };
+
+  const getCurrentTime = () => {
+    const now = audioContext.currentTime;
+    for (let i = segments.length - 1; i >= 0; i--) {
+      const segment = segments[i];
+      if (now >= segment.contextStart) {
+        return segment.contentOffset + Math.min(segment.duration, now - segment.contextStart);
+      }
+    }
+    return 0;
+  };
+
+  return {
+    enqueue: (index, blob) => {
+      pending.set(index, blob);
+      drain = drain.then(scheduleReady).catch(error => {
+        console.error('Streaming playback failed:', error);
+      });
+      return drain;
+    },
+    pause: async () => {
+      paused = true;
+      await audioContext.suspend();
+    },
+    resume: async () => {
+      paused = false;
+      await audioContext.resume();
+    },
+    setVolume: (volume) => {
+      gain.gain.value = Math.max(0, Math.min(1, volume));
+    },
+    isPaused: () => paused,
+    getCurrentTime,
+    getBufferedDuration: () => bufferedDuration,
+    close: async () => {
+      if (closed) return;
+      closed = true;
+      sources.forEach(source => {
+        try {
+          source.stop();
+        } catch {
+          // Already stopped
+        }
+      });
+      pending.clear();
+      await audioContext.close();
+    },
+  };
+};
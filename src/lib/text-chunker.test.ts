@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { chunkText } from './text-chunker';
+
+describe('chunkText', () => {
+  it('keeps short text in one chunk', () => {
+    expect(chunkText('  Hello there.  ')).toEqual(['Hello there.']);
+    expect(chunkText(' \n\n ')).toEqual([]);
+  });
+
+  it('packs paragraphs together while they fit', () => {
+    expect(chunkText('One.\n\nTwo.\n\n\nThree here.', 12)).toEqual(['One.\n\nTwo.', 'Three here.']);
+  });
+
+  it('splits long paragraphs at sentence ends', () => {
+    expect(chunkText('First one here. Second "quoted!" Third?', 20)).toEqual([
+      'First one here.',
+      'Second "quoted!"',
+      'Third?',
+    ]);
+  });
+
+  it('falls back to clauses, words and characters', () => {
+    expect(chunkText('alpha beta, gamma delta', 12)).toEqual(['alpha beta,', 'gamma delta']);
+    expect(chunkText('alpha beta gamma', 11)).toEqual(['alpha beta', 'gamma']);
+    expect(chunkText('abcdefgh', 3)).toEqual(['abc', 'def', 'gh']);
+  });
+
+  it('never returns a chunk over the limit', () => {
+    const text = 'Lorem ipsum dolor sit amet, consectetur adipiscing elit. '.repeat(40);
+    const chunks = chunkText(text, 100);
+    expect(chunks.every(chunk => chunk.length <= 100)).toBe(true);
+    expect(chunks.join(' ').replace(/\s+/g, ' ')).toBe(text.trim());
+  });
+});
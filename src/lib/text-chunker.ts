@@ -0,0 +1,92 @@
+/**
+ * Sentence and paragraph aware text chunking for long-form generation
+ */
+
+export const DEFAULT_MAX_CHUNK_CHARS = 1000;
+
+const SENTENCE_PATTERN = /[^.!?…]+(?:[.!?…]+["'”’)\]]*|$)\s*/g;
+const CLAUSE_PATTERN = /[^,;:—]+(?:[,;:—]+|$)\s*/g;
+
+/**
+ * Split text on the given pattern, falling back to the whole text
+ */
+const splitWith = (text: string, pattern: RegExp): string[] => {
+  const parts = text.match(pattern)?.filter(part => part.trim().length > 0);
+  return parts && parts.length > 0 ? parts : [text];
+};
+
+/**
+ * Break a single oversized piece at clause, then word, then character boundaries
+ */
+const splitOversized = (text: string, maxChars: number): string[] => {
+  if (text.length <= maxChars) return [text];
+
+  const clauses = splitWith(text, CLAUSE_PATTERN);
+  if (clauses.length > 1) {
+    return packPieces(clauses, maxChars);
+  }
+
+  const words = text.match(/\S+\s*/g) ?? [];
+  if (words.length > 1) {
+    return packPieces(words, maxChars);
+  }
+
+  const pieces: string[] = [];
+  for (let i = 0; i < text.length; i += maxChars) {
+    pieces.push(text.slice(i, i + maxChars));
+  }
+  return pieces;
+};
+
+/**
+ * Greedily pack pieces into chunks no longer than maxChars
+ */
+const packPieces = (pieces: string[], maxChars: number, separator: string = ''): string[] => {
+  const chunks: string[] = [];
+  let current = '';
+
+  for (const piece of pieces) {
+    const candidate = current ? current + separator + piece : piece;
+
+    if (candidate.length <= maxChars) {
+      current = candidate;
+      continue;
+    }
+
+    if (current) {
+      chunks.push(current);
+      current = '';
+    }
+
+    if (piece.length <= maxChars) {
+      current = piece;
+    } else {
+      const parts = splitOversized(piece, maxChars);
+      chunks.push(...parts.slice(0, -1));
+      current = parts[parts.length - 1];
+    }
+  }
+
+  if (current) chunks.push(current);
+  return chunks;
+};
+
+/**
+ * Split text into chunks under maxChars, preferring paragraph and sentence
+ * boundaries so each request ends on a natural pause
+ */
+export const chunkText = (text: string, maxChars: number = DEFAULT_MAX_CHUNK_CHARS): string[] => {
+  const limit = Math.max(1, Math.floor(maxChars));
+  const paragraphs = text
+    .split(/\n\s*\n/)
+    .map(paragraph => paragraph.trim())
+    .filter(paragraph => paragraph.length > 0);
+
+  const pieces = paragraphs.flatMap(paragraph =>
+    paragraph.length <= limit ? [paragraph] : packPieces(splitWith(paragraph, SENTENCE_PATTERN), limit)
+  );
+
+  return packPieces(pieces, limit, '\n\n')
+    .map(chunk => chunk.trim())
+    .filter(chunk => chunk.length > 0);
+};
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_NORMALIZER_OPTIONS, normalizeText, normalizeTextWithChanges } from './text-normalizer';
+
+const normalize = (text: string): string => normalizeText(text, DEFAULT_NORMALIZER_OPTIONS);
+
+describe('normalizeText', () => {
+  it('reads prices with a period', () => {
+    expect(normalize('only $4.99/mo')).toBe('only four dollars and ninety-nine cents per month');
+  });
+
+  it('reads version numbers', () => {
+    expect(normalize('update to v2.3.1 now')).toBe('update to version two point three point one now');
+  });
+
+  it('reads numbers, units and abbreviations', () => {
+    expect(normalize('1,250.5 items')).toBe('one thousand two hundred fifty point five items');
+    expect(normalize('5GB, 20%')).toBe('five gigabytes, twenty percent');
+    expect(normalize('the 21st')).toBe('the twenty-first');
+  });
+
+  it('follows the locale', () => {
+    expect(normalizeText('101', { ...DEFAULT_NORMALIZER_OPTIONS, locale: 'en-GB' })).toBe('one hundred and one');
+  });
+
+  it('leaves text alone when disabled', () => {
+    expect(normalizeText('$4.99/mo', { ...DEFAULT_NORMALIZER_OPTIONS, enabled: false })).toBe('$4.99/mo');
+  });
+
+  it('reports changes against the original positions', () => {
+    const { changes } = normalizeTextWithChanges('pay $5 today', DEFAULT_NORMALIZER_OPTIONS);
+    expect(changes).toEqual([
+      { rule: 'currency', start: 4, end: 6, original: '$5', replacement: 'five dollars' },
+    ]);
+  });
+
+  it('keeps a hyphen between a word and a number', () => {
+    expect(normalize('COVID-19')).toBe('COVID-nineteen');
+    expect(normalize('our top-10 picks')).toBe('our top-ten picks');
+  });
+
+  it('reads a leading hyphen as minus', () => {
+    expect(normalize('it fell to -5 today')).toBe('it fell to minus five today');
+    expect(normalize('-3°C outside')).toBe('minus three degrees Celsius outside');
+  });
+
+  it('reads number ranges with "to"', () => {
+    expect(normalize('10-20 minutes')).toBe('ten to twenty minutes');
+    expect(normalize('from 2019–2024')).toBe('from twenty nineteen to twenty twenty-four');
+  });
+
+  it('reads local phone numbers digit by digit', () => {
+    expect(normalize('call 555-1234')).toBe('call five five five, one two three four');
+    expect(normalize('1-800-555-1234')).toBe('one, eight zero zero, five five five, one two three four');
+  });
+
+  it('reads magnitude suffixes', () => {
+    expect(normalize('1.5M users')).toBe('one point five million users');
+    expect(normalize('over 20K downloads')).toBe('over twenty thousand downloads');
+  });
+
+  it('leaves a number running into other characters alone', () => {
+    expect(normalize('1.5x faster')).toBe('1.5x faster');
+  });
+
+  it('keeps an ampersand between letters', () => {
+    expect(normalize('AT&T and R&D')).toBe('AT&T and R&D');
+    expect(normalize('salt & pepper')).toBe('salt and pepper');
+  });
+});
@@ -0,0 +1,587 @@
+/**
+ * Locale-aware text normalization: spell out numbers, dates, money, units,
+ * contact details and abbreviations so they are read naturally
+ */
+
+export type NormalizationRuleId =
+  | 'urls'
+  | 'emails'
+  | 'phoneNumbers'
+  | 'currency'
+  | 'versions'
+  | 'dates'
+  | 'times'
+  | 'units'
+  | 'ordinals'
+  | 'numbers'
+  | 'abbreviations';
+
+export type NormalizerLocale = 'en-US' | 'en-GB' | 'en-AU' | 'en-CA' | 'en-IN';
+
+export interface NormalizerOptions {
+  enabled: boolean;
+  locale: NormalizerLocale;
+  rules: Record<NormalizationRuleId, boolean>;
+}
+
+export interface NormalizationChange {
+  rule: NormalizationRuleId;
+  /** Range in the original text */
+  start: number;
+  end: number;
+  original: string;
+  replacement: string;
+}
+
+export interface NormalizationResult {
+  text: string;
+  changes: NormalizationChange[];
+}
+
+/** In the order they are tried, so more specific patterns win */
+export const NORMALIZATION_RULES: { id: NormalizationRuleId; label: string; example: string }[] = [
+  { id: 'urls', label: 'Web addresses', example: 'example.com/pricing' },
+  { id: 'emails', label: 'Email addresses', example: 'hi@example.com' },
+  { id: 'phoneNumbers', label: 'Phone numbers', example: '(555) 123-4567' },
+  { id: 'currency', label: 'Money', example: '$4.99/mo' },
+  { id: 'versions', label: 'Version numbers', example: 'v2.3.1' },
+  { id: 'dates', label: 'Dates', example: '2024-03-05' },
+  { id: 'times', label: 'Times', example: '9:30 am' },
+  { id: 'units', label: 'Units', example: '5GB, 20%' },
+  { id: 'ordinals', label: 'Ordinals', example: '21st' },
+  { id: 'numbers', label: 'Numbers', example: '1,250.5' },
+  { id: 'abbreviations', label: 'Abbreviations', example: 'e.g., Dr.' },
+];
+
+export const NORMALIZER_LOCALES: { id: NormalizerLocale; label: string }[] = [
+  { id: 'en-US', label: 'English (US)' },
+  { id: 'en-GB', label: 'English (UK)' },
+  { id: 'en-AU', label: 'English (Australia)' },
+  { id: 'en-CA', label: 'English (Canada)' },
+  { id: 'en-IN', label: 'English (India)' },
+];
+
+export const DEFAULT_NORMALIZER_OPTIONS: NormalizerOptions = {
+  enabled: true,
+  locale: 'en-US',
+  rules: {
+    urls: true,
+    emails: true,
+    phoneNumbers: true,
+    currency: true,
+    versions: true,
+    dates: true,
+    times: true,
+    units: true,
+    ordinals: true,
+    numbers: true,
+    abbreviations: true,
+  },
+};
+
+const STORAGE_KEY = 'voicegen:normalizer';
+
+/**
+ * Saved options merged over the defaults
+ */
+export const loadNormalizerOptions = (): NormalizerOptions => {
+  if (typeof window === 'undefined') return DEFAULT_NORMALIZER_OPTIONS;
+
+  try {
+    const saved = JSON.parse(window.localStorage.getItem(STORAGE_KEY) || '{}') as Partial<NormalizerOptions>;
+    return {
+      ...DEFAULT_NORMALIZER_OPTIONS,
+      ...saved,
+      rules: { ...DEFAULT_NORMALIZER_OPTIONS.rules, ...saved.rules },
+    };
+  } catch {
+    return DEFAULT_NORMALIZER_OPTIONS;
+  }
+};
+
+export const saveNormalizerOptions = (options: NormalizerOptions): void => {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(options));
+  } catch (error) {
+    console.error('Failed to save normalization settings:', error);
+  }
+};
+
+// Number words
+
+const ONES = [
+  'zero', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine', 'ten',
+  'eleven', 'twelve', 'thirteen', 'fourteen', 'fifteen', 'sixteen', 'seventeen', 'eighteen', 'nineteen',
+];
+const TENS = ['', '', 'twenty', 'thirty', 'forty', 'fifty', 'sixty', 'seventy', 'eighty', 'ninety'];
+const SCALES = ['', 'thousand', 'million', 'billion', 'trillion'];
+
+const belowHundred = (n: number): string =>
+  n < 20 ? ONES[n] : TENS[Math.floor(n / 10)] + (n % 10 ? `-${ONES[n % 10]}` : '');
+
+const belowThousand = (n: number, useAnd: boolean): string => {
+  const hundreds = Math.floor(n / 100);
+  const rest = n % 100;
+  const parts: string[] = [];
+
+  if (hundreds) parts.push(`${ONES[hundreds]} hundred`);
+  if (rest) {
+    if (hundreds && useAnd) parts.push('and');
+    parts.push(belowHundred(rest));
+  }
+  return parts.join(' ');
+};
+
+const spellDigits = (digits: string): string =>
+  digits.split('').map(digit => ONES[Number(digit)]).join(' ');
+
+/**
+ * Cardinal number in words; integers beyond the trillions are read digit by digit
+ */
+export const numberToWords = (value: number, useAnd: boolean = false): string => {
+  if (value < 0) return `minus ${numberToWords(-value, useAnd)}`;
+  if (!Number.isSafeInteger(value) || value >= 1e15) return spellDigits(String(value));
+  if (value === 0) return ONES[0];
+
+  const groups: number[] = [];
+  for (let rest = value; rest > 0; rest = Math.floor(rest / 1000)) {
+    groups.push(rest % 1000);
+  }
+
+  const parts: string[] = [];
+  for (let index = groups.length - 1; index >= 0; index--) {
+    const group = groups[index];
+    if (!group) continue;
+
+    // British style: "one thousand and five"
+    if (index === 0 && groups.length > 1 && group < 100 && useAnd) parts.push('and');
+    parts.push(belowThousand(group, useAnd) + (SCALES[index] ? ` ${SCALES[index]}` : ''));
+  }
+  return parts.join(' ');
+};
+
+const ORDINAL_EXCEPTIONS: Record<string, string> = {
+  one: 'first',
+  two: 'second',
+  three: 'third',
+  five: 'fifth',
+  eight: 'eighth',
+  nine: 'ninth',
+  twelve: 'twelfth',
+};
+
+/**
+ * Ordinal in words, e.g. 21 -> "twenty-first"
+ */
+export const ordinalToWords = (value: number, useAnd: boolean = false): string => {
+  const words = numberToWords(value, useAnd);
+  const match = words.match(/([a-z]+)$/)!;
+  const last = match[1];
+  const ordinal = ORDINAL_EXCEPTIONS[last] ?? (last.endsWith('y') ? `${last.slice(0, -1)}ieth` : `${last}th`);
+  return words.slice(0, match.index) + ordinal;
+};
+
+/**
+ * Year as usually spoken, e.g. 1999 -> "nineteen ninety-nine"
+ */
+const yearToWords = (year: number): string => {
+  if (year >= 2000 && year < 2010) return numberToWords(year);
+  if (year < 1100 || year >= 10000) return numberToWords(year);
+
+  const high = Math.floor(year / 100);
+  const low = year % 100;
+  if (low === 0) return `${numberToWords(high)} hundred`;
+  if (low < 10) return `${numberToWords(high)} oh ${ONES[low]}`;
+  return `${numberToWords(high)} ${numberToWords(low)}`;
+};
+
+/**
+ * Decimal in words, e.g. "3.14" -> "three point one four"
+ */
+const decimalToWords = (value: string, useAnd: boolean): string => {
+  const [integer, fraction] = value.replace(/,/g, '').split('.');
+  const words = numberToWords(Number(integer || '0'), useAnd);
+  return fraction ? `${words} point ${spellDigits(fraction)}` : words;
+};
+
+// Rules
+
+interface RuleContext {
+  locale: NormalizerLocale;
+  useAnd: boolean;
+}
+
+interface NormalizationRule {
+  id: NormalizationRuleId;
+  /** Sticky pattern matched at the current position */
+  pattern: RegExp;
+  /** Spoken form, or null to leave the match alone */
+  replace: (match: RegExpExecArray, context: RuleContext) => string | null;
+}
+
+const CURRENCIES: Record<string, [string, string, string, string]> = {
+  $: ['dollar', 'dollars', 'cent', 'cents'],
+  USD: ['dollar', 'dollars', 'cent', 'cents'],
+  '€': ['euro', 'euros', 'cent', 'cents'],
+  EUR: ['euro', 'euros', 'cent', 'cents'],
+  '£': ['pound', 'pounds', 'penny', 'pence'],
+  GBP: ['pound', 'pounds', 'penny', 'pence'],
+  '¥': ['yen', 'yen', 'sen', 'sen'],
+  JPY: ['yen', 'yen', 'sen', 'sen'],
+  '₹': ['rupee', 'rupees', 'paisa', 'paise'],
+  INR: ['rupee', 'rupees', 'paisa', 'paise'],
+};
+
+const MAGNITUDES: Record<string, string> = {
+  k: 'thousand',
+  K: 'thousand',
+  m: 'million',
+  M: 'million',
+  mn: 'million',
+  b: 'billion',
+  B: 'billion',
+  bn: 'billion',
+};
+
+// Lowercase "m" and "b" after a bare number are as likely meters or bits
+const NUMBER_MAGNITUDES = ['mn', 'bn', 'k', 'K', 'M', 'B'];
+
+const PERIODS: Record<string, string> = {
+  mo: 'month',
+  mth: 'month',
+  month: 'month',
+  yr: 'year',
+  year: 'year',
+  wk: 'week',
+  week: 'week',
+  day: 'day',
+  hr: 'hour',
+  hour: 'hour',
+  min: 'minute',
+};
+
+const UNITS: Record<string, [string, string]> = {
+  'km/h': ['kilometer per hour', 'kilometers per hour'],
+  kph: ['kilometer per hour', 'kilometers per hour'],
+  mph: ['mile per hour', 'miles per hour'],
+  km: ['kilometer', 'kilometers'],
+  cm: ['centimeter', 'centimeters'],
+  mm: ['millimeter', 'millimeters'],
+  kg: ['kilogram', 'kilograms'],
+  mg: ['milligram', 'milligrams'],
+  lb: ['pound', 'pounds'],
+  lbs: ['pound', 'pounds'],
+  oz: ['ounce', 'ounces'],
+  mi: ['mile', 'miles'],
+  ft: ['foot', 'feet'],
+  TB: ['terabyte', 'terabytes'],
+  GB: ['gigabyte', 'gigabytes'],
+  MB: ['megabyte', 'megabytes'],
+  KB: ['kilobyte', 'kilobytes'],
+  GHz: ['gigahertz', 'gigahertz'],
+  MHz: ['megahertz', 'megahertz'],
+  kHz: ['kilohertz', 'kilohertz'],
+  Hz: ['hertz', 'hertz'],
+  ms: ['millisecond', 'milliseconds'],
+  '°C': ['degree Celsius', 'degrees Celsius'],
+  '°F': ['degree Fahrenheit', 'degrees Fahrenheit'],
+  '%': ['percent', 'percent'],
+};
+
+const ABBREVIATIONS: Record<string, string> = {
+  'e.g.': 'for example',
+  'i.e.': 'that is',
+  'etc.': 'et cetera',
+  'vs.': 'versus',
+  'approx.': 'approximately',
+  'Dr.': 'Doctor',
+  'Mr.': 'Mister',
+  'Mrs.': 'Missus',
+  'Prof.': 'Professor',
+  'Jr.': 'Junior',
+  'Sr.': 'Senior',
+  'Inc.': 'Incorporated',
+  'Ltd.': 'Limited',
+  'w/o': 'without',
+  'w/': 'with',
+  '&': 'and',
+};
+
+// Always followed by a name, never the end of a sentence
+const TITLES = new Set(['Dr.', 'Mr.', 'Mrs.', 'Prof.']);
+
+// Keeps inline SSML placeholders (private-use characters) out of matches
+const ADDRESS_CHAR = '[^\\s\\uE000-\\uF8FF<>"\']';
+const ADDRESS_END = '[^\\s\\uE000-\\uF8FF<>"\'.,;:!?)]';
+const END = '(?![A-Za-z0-9])';
+
+const isWordChar = (char: string | undefined): boolean => char !== undefined && /[A-Za-z0-9]/.test(char);
+
+const isLetter = (char: string | undefined): boolean => char !== undefined && /[A-Za-z]/.test(char);
+
+/**
+ * A leading "-" only reads as minus when it doesn't join two words,
+ * as in "COVID-19" or "top-10"
+ */
+const isMinusSign = (match: RegExpExecArray, sign: string | undefined): boolean =>
+  !!sign && !isWordChar(match.input[match.index - 1]);
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+
+const sortedKeys = (record: Record<string, unknown>): string =>
+  Object.keys(record).sort((a, b) => b.length - a.length).map(escapeRegExp).join('|');
+
+/**
+ * Read an address out symbol by symbol, e.g. "example.com/pricing"
+ */
+const speakAddress = (address: string): string =>
+  address
+    .replace(/\./g, ' dot ')
+    .replace(/\//g, ' slash ')
+    .replace(/@/g, ' at ')
+    .replace(/-/g, ' dash ')
+    .replace(/_/g, ' underscore ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const monthName = (month: number, locale: NormalizerLocale): string =>
+  new Intl.DateTimeFormat(locale, { month: 'long', timeZone: 'UTC' }).format(new Date(Date.UTC(2000, month - 1, 1)));
+
+const monthFirst = (locale: NormalizerLocale): boolean => {
+  const parts = new Intl.DateTimeFormat(locale, { timeZone: 'UTC' }).formatToParts(new Date(Date.UTC(2000, 0, 2)));
+  const types = parts.map(part => part.type);
+  return types.indexOf('month') < types.indexOf('day');
+};
+
+const speakDate = (year: number | null, month: number, day: number, context: RuleContext): string | null => {
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+
+  const name = monthName(month, context.locale);
+  const yearWords = year !== null ? yearToWords(year) : null;
+
+  if (monthFirst(context.locale)) {
+    return `${name} ${ordinalToWords(day)}${yearWords ? `, ${yearWords}` : ''}`;
+  }
+  return `the ${ordinalToWords(day)} of ${name}${yearWords ? `, ${yearWords}` : ''}`;
+};
+
+const NUMBER = '(\\d{1,3}(?:,\\d{3})+|\\d+)(?:\\.(\\d+))?';
+
+/**
+ * A plain number in words, read as a year, a code or a cardinal
+ */
+const speakNumber = (whole: string, fraction: string | undefined, context: RuleContext): string => {
+  // Bare four-digit numbers read best as years ("in 1999", "since 2024")
+  if (!fraction && /^\d{4}$/.test(whole) && Number(whole) >= 1100 && Number(whole) < 2100) {
+    return yearToWords(Number(whole));
+  }
+  // Leading zeros are codes or IDs, read digit by digit
+  if (whole.length > 1 && whole.startsWith('0')) {
+    return spellDigits(whole) + (fraction ? ` point ${spellDigits(fraction)}` : '');
+  }
+  return decimalToWords(`${whole}${fraction ? `.${fraction}` : ''}`, context.useAnd);
+};
+
+const RULES: NormalizationRule[] = [
+  {
+    id: 'urls',
+    // Trailing sentence punctuation is left out of the path
+    pattern: new RegExp(
+      `(?:https?://)?(www\\.)?((?:[a-z0-9-]+\\.)+(?:com|org|net|io|ai|dev|app|co|uk|de|fr|gov|edu)(?:/(?:${ADDRESS_CHAR}*${ADDRESS_END})?)?)${END}`,
+      'iy'
+    ),
+    replace: match => (match[1] ? 'www dot ' : '') + speakAddress(match[2].replace(/\/$/, '')),
+  },
+  {
+    id: 'emails',
+    pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,}/y,
+    replace: match => speakAddress(match[0]),
+  },
+  {
+    id: 'phoneNumbers',
+    // Full numbers with an optional country code or leading 1, and local 555-1234 style numbers
+    pattern: new RegExp(
+      `(?:(?:\\+\\d{1,3}|1)[ .-]?)?(?:\\(\\d{3}\\)\\s?|\\d{3}[ .-])\\d{3}[ .-]\\d{4}${END}|\\+\\d{1,3}(?:[ .-]\\d{2,4}){2,4}${END}|[2-9]\\d{2}-\\d{4}${END}`,
+      'y'
+    ),
+    replace: match => {
+      const groups = match[0].match(/\d+/g) ?? [];
+      return (match[0].startsWith('+') ? 'plus ' : '') + groups.map(spellDigits).join(', ');
+    },
+  },
+  {
+    id: 'currency',
+    pattern: new RegExp(
+      `(?:([$€£¥₹])\\s?(\\d{1,3}(?:,\\d{3})+|\\d+)(?:\\.(\\d+))?|(\\d{1,3}(?:,\\d{3})+|\\d+)(?:\\.(\\d+))?\\s?(USD|EUR|GBP|JPY|INR))` +
+        `(?:\\s?(${sortedKeys(MAGNITUDES)})${END})?(?:\\s?/\\s?(${sortedKeys(PERIODS)})${END})?`,
+      'y'
+    ),
+    replace: (match, context) => {
+      const [, symbol, symbolWhole, symbolFraction, codeWhole, codeFraction, code, magnitude, period] = match;
+      const [singular, plural, subSingular, subPlural] = CURRENCIES[symbol ?? code];
+      const whole = Number((symbolWhole ?? codeWhole).replace(/,/g, ''));
+      const fraction = symbolFraction ?? codeFraction;
+      const per = period ? ` per ${PERIODS[period]}` : '';
+
+      if (magnitude) {
+        const amount = decimalToWords(`${whole}${fraction ? `.${fraction}` : ''}`, context.useAnd);
+        return `${amount} ${MAGNITUDES[magnitude]} ${plural}${per}`;
+      }
+
+      if (fraction && fraction.length !== 2) {
+        return `${decimalToWords(`${whole}.${fraction}`, context.useAnd)} ${plural}${per}`;
+      }
+
+      const cents = fraction ? Number(fraction) : 0;
+      const parts: string[] = [];
+      if (whole > 0 || cents === 0) parts.push(`${numberToWords(whole, context.useAnd)} ${whole === 1 ? singular : plural}`);
+      if (cents > 0) parts.push(`${numberToWords(cents)} ${cents === 1 ? subSingular : subPlural}`);
+      return parts.join(' and ') + per;
+    },
+  },
+  {
+    id: 'versions',
+    pattern: new RegExp(`[vV](\\d+(?:\\.\\d+)*)${END}|(\\d+\\.\\d+\\.\\d+(?:\\.\\d+)*)${END}`, 'y'),
+    replace: match => {
+      const version = (match[1] ?? match[2]).split('.').map(part => numberToWords(Number(part))).join(' point ');
+      return `version ${version}`;
+    },
+  },
+  {
+    id: 'dates',
+    pattern: new RegExp(`(\\d{4})-(\\d{2})-(\\d{2})${END}|(\\d{1,2})/(\\d{1,2})/(\\d{4}|\\d{2})${END}`, 'y'),
+    replace: (match, context) => {
+      if (match[1]) {
+        return speakDate(Number(match[1]), Number(match[2]), Number(match[3]), context);
+      }
+
+      const [first, second] = [Number(match[4]), Number(match[5])];
+      const year = match[6].length === 2 ? 2000 + Number(match[6]) : Number(match[6]);
+      return monthFirst(context.locale)
+        ? speakDate(year, first, second, context)
+        : speakDate(year, second, first, context);
+    },
+  },
+  {
+    id: 'times',
+    pattern: /(\d{1,2}):(\d{2})(?:\s?([AaPp])\.?[Mm]\.?)?(?![A-Za-z0-9])/y,
+    replace: match => {
+      const hours = Number(match[1]);
+      const minutes = Number(match[2]);
+      if (hours > 23 || minutes > 59) return null;
+
+      const period = match[3] ? ` ${match[3].toUpperCase()}M` : '';
+      if (minutes === 0) return period ? `${numberToWords(hours)}${period}` : `${numberToWords(hours)} o'clock`;
+      const minuteWords = minutes < 10 ? `oh ${ONES[minutes]}` : numberToWords(minutes);
+      return `${numberToWords(hours)} ${minuteWords}${period}`;
+    },
+  },
+  {
+    id: 'units',
+    pattern: new RegExp(`(-?)${NUMBER}\\s?(${sortedKeys(UNITS)})(?![A-Za-z0-9])`, 'y'),
+    replace: (match, context) => {
+      const [, sign, whole, fraction, unit] = match;
+      if (sign && !isMinusSign(match, sign)) return null;
+
+      const [singular, plural] = UNITS[unit];
+      const amount = decimalToWords(`${sign}${whole}${fraction ? `.${fraction}` : ''}`, context.useAnd);
+      return `${amount} ${!fraction && Number(whole.replace(/,/g, '')) === 1 ? singular : plural}`;
+    },
+  },
+  {
+    id: 'ordinals',
+    pattern: /(\d+)(st|nd|rd|th)(?![A-Za-z0-9])/y,
+    replace: (match, context) => ordinalToWords(Number(match[1]), context.useAnd),
+  },
+  {
+    id: 'numbers',
+    // Ranges such as "10-20" or "2019–2024"; a third number makes it a code
+    pattern: new RegExp(`${NUMBER}[-–]${NUMBER}(?![-–.]?\\d)${END}`, 'y'),
+    replace: (match, context) =>
+      `${speakNumber(match[1], match[2], context)} to ${speakNumber(match[3], match[4], context)}`,
+  },
+  {
+    id: 'numbers',
+    // A number running into more digits after a point, like "1.5x", is left alone
+    pattern: new RegExp(`(-?)${NUMBER}(?!\\.\\d)(${NUMBER_MAGNITUDES.join('|')})?${END}`, 'y'),
+    replace: (match, context) => {
+      const [, sign, whole, fraction, magnitude] = match;
+      if (sign && !isMinusSign(match, sign)) return null;
+
+      const minus = sign ? 'minus ' : '';
+      if (magnitude) {
+        return `${minus}${decimalToWords(`${whole}${fraction ? `.${fraction}` : ''}`, context.useAnd)} ${MAGNITUDES[magnitude]}`;
+      }
+      // A year can't be negative
+      if (sign && !fraction && /^\d{4}$/.test(whole)) {
+        return minus + decimalToWords(whole, context.useAnd);
+      }
+      return minus + speakNumber(whole, fraction, context);
+    },
+  },
+  {
+    id: 'abbreviations',
+    pattern: new RegExp(`(?:${sortedKeys(ABBREVIATIONS)})`, 'y'),
+    replace: match => {
+      // Names like "AT&T" or "R&D" are read as written
+      if (match[0] === '&' && isLetter(match.input[match.index - 1]) && isLetter(match.input[match.index + 1])) {
+        return null;
+      }
+      return ABBREVIATIONS[match[0]];
+    },
+  },
+];
+
+/**
+ * Normalize text and report every change against the original positions
+ */
+export const normalizeTextWithChanges = (text: string, options: NormalizerOptions): NormalizationResult => {
+  if (!options.enabled) return { text, changes: [] };
+
+  const rules = RULES.filter(rule => options.rules[rule.id]);
+  const context: RuleContext = {
+    locale: options.locale,
+    useAnd: options.locale !== 'en-US' && options.locale !== 'en-CA',
+  };
+
+  const changes: NormalizationChange[] = [];
+  let output = '';
+  let index = 0;
+
+  outer: while (index < text.length) {
+    // Only start matching at a word boundary so "A4" or "abc123" stay intact
+    if (!isWordChar(text[index - 1]) || !isWordChar(text[index])) {
+      for (const rule of rules) {
+        rule.pattern.lastIndex = index;
+        const match = rule.pattern.exec(text);
+        if (!match) continue;
+
+        const replacement = rule.replace(match, context);
+        if (replacement === null) continue;
+
+        let spoken = replacement;
+        // A sentence-final abbreviation keeps its full stop
+        if (rule.id === 'abbreviations' && match[0].endsWith('.') && !TITLES.has(match[0])) {
+          const after = text.slice(index + match[0].length);
+          if (after === '' || /^\s+[A-Z]/.test(after)) spoken += '.';
+        }
+
+        changes.push({ rule: rule.id, start: index, end: index + match[0].length, original: match[0], replacement: spoken });
+        output += spoken;
+        index += match[0].length;
+        continue outer;
+      }
+    }
+
+    output += text[index];
+    index++;
+  }
+
+  return { text: output, changes };
+};
+
+/**
+ * Normalize text for synthesis
+ */
+export const normalizeText = (text: string, options: NormalizerOptions): string =>
+  normalizeTextWithChanges(text, options).text;
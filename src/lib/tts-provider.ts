@@ -0,0 +1,513 @@
+/**
+ * Pluggable text-to-speech provider layer
+ */
+
+import { estimateReadingTime, type VoiceRequest } from './audio-utils';
+import type { CharacterAlignment } from './captions';
+import type { SsmlElementName } from './ssml';
+import { BUNDLED_VOICES, type Voice, type VoiceGender } from './voices';
+import { encodeWav } from './wav-encoder';
+
+export type TtsProviderId = 'proxy' | 'server' | 'openai' | 'mock';
+
+export interface SynthesizeOptions {
+  signal?: AbortSignal;
+  /** Called as audio bytes arrive; total is null when the size is unknown */
+  onDownloadProgress?: (receivedBytes: number, totalBytes: number | null) => void;
+}
+
+export interface SynthesisResult {
+  blob: Blob;
+  /** Character timing, when the provider reports it */
+  alignment: CharacterAlignment | null;
+}
+
+export interface TtsModel {
+  id: string;
+  name: string;
+  description: string;
+}
+
+export interface TtsProvider {
+  id: TtsProviderId;
+  name: string;
+  /** Speed range the provider renders natively; null when it ignores speed */
+  speedRange: [number, number] | null;
+  /** SSML elements passed through inline; everything else is downgraded by the app */
+  ssmlElements: SsmlElementName[];
+  /** Whether requests may reference uploaded pronunciation dictionaries */
+  pronunciationLocators: boolean;
+  /** Models a request may pick; the first is the default */
+  models: TtsModel[];
+  /** Whether style, speaker boost and seed reach the voice */
+  expressiveSettings: boolean;
+  synthesize: (request: VoiceRequest, options?: SynthesizeOptions) => Promise<Blob>;
+  /** Audio plus character timing; missing when the provider can't report timing */
+  synthesizeWithAlignment?: (request: VoiceRequest, options?: SynthesizeOptions) => Promise<SynthesisResult>;
+  /** Voices the provider offers; missing when it has no catalog endpoint */
+  listVoices?: (options?: { signal?: AbortSignal }) => Promise<Voice[]>;
+}
+
+export interface TtsConfig {
+  provider: TtsProviderId;
+  endpoint?: string;
+  apiKey?: string;
+  customerId?: string;
+  model?: string;
+  /** Voice catalog URL, for providers that don't derive it from the endpoint */
+  voicesEndpoint?: string;
+}
+
+/**
+ * Read the provider configuration from build-time environment variables
+ */
+export const getTtsConfig = (): TtsConfig => ({
+  provider: (process.env.NEXT_PUBLIC_TTS_PROVIDER as TtsProviderId | undefined) || 'proxy',
+  endpoint: process.env.NEXT_PUBLIC_TTS_ENDPOINT || undefined,
+  apiKey: process.env.NEXT_PUBLIC_TTS_API_KEY || undefined,
+  customerId: process.env.NEXT_PUBLIC_TTS_CUSTOMER_ID || undefined,
+  model: process.env.NEXT_PUBLIC_TTS_MODEL || undefined,
+  voicesEndpoint: process.env.NEXT_PUBLIC_TTS_VOICES_URL || undefined,
+});
+
+const base64ToBlob = (base64Data: string, type: string): Blob => {
+  const binaryString = atob(base64Data);
+  const bytes = new Uint8Array(binaryString.length);
+  for (let i = 0; i < binaryString.length; i++) {
+    bytes[i] = binaryString.charCodeAt(i);
+  }
+  return new Blob([bytes], { type });
+};
+
+/**
+ * Read a response body, reporting bytes as they stream in
+ */
+const readBody = async (response: Response, options: SynthesizeOptions): Promise<Blob> => {
+  if (!response.body || !options.onDownloadProgress) {
+    return response.blob();
+  }
+
+  const totalBytes = Number(response.headers.get('content-length')) || null;
+  const reader = response.body.getReader();
+  const parts: Uint8Array[] = [];
+  let receivedBytes = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    parts.push(value);
+    receivedBytes += value.length;
+    options.onDownloadProgress(receivedBytes, totalBytes);
+  }
+
+  return new Blob(parts, { type: response.headers.get('content-type') || '' });
+};
+
+interface ElevenLabsAlignment {
+  characters: string[];
+  character_start_times_seconds: number[];
+  character_end_times_seconds: number[];
+}
+
+const parseElevenLabsAlignment = (alignment: ElevenLabsAlignment | null | undefined): CharacterAlignment | null =>
+  alignment && Array.isArray(alignment.characters)
+    ? {
+        characters: alignment.characters,
+        startTimes: alignment.character_start_times_seconds,
+        endTimes: alignment.character_end_times_seconds,
+      }
+    : null;
+
+/**
+ * Turn a provider response into audio, with character timing when the body
+ * is ElevenLabs' with-timestamps JSON (`audio_base64` plus `alignment`).
+ * Also handles raw audio bodies and chat-completion style JSON that carries
+ * either a data URL or a link to the generated file.
+ */
+export const readTimedAudioResponse = async (
+  response: Response,
+  options: SynthesizeOptions = {}
+): Promise<SynthesisResult> => {
+  if (!response.ok) {
+    throw new Error(`HTTP error! status: ${response.status}`);
+  }
+
+  const contentType = response.headers.get('content-type');
+
+  if (contentType?.includes('application/json')) {
+    const jsonResponse = await response.json();
+
+    if (typeof jsonResponse?.audio_base64 === 'string') {
+      return {
+        blob: base64ToBlob(jsonResponse.audio_base64, jsonResponse.content_type || 'audio/mpeg'),
+        alignment: parseElevenLabsAlignment(jsonResponse.alignment),
+      };
+    }
+
+    const message = jsonResponse?.choices?.[0]?.message?.content;
+
+    if (message === undefined) {
+      throw new Error('No audio data in response');
+    }
+
+    if (typeof message === 'string' && message.startsWith('data:audio')) {
+      const [header, base64Data] = message.split(',');
+      const type = header.slice('data:'.length).split(';')[0] || 'audio/mpeg';
+      return { blob: base64ToBlob(base64Data, type), alignment: null };
+    }
+
+    if (typeof message === 'string' && message.startsWith('http')) {
+      const audioResponse = await fetch(message, { signal: options.signal });
+      if (!audioResponse.ok) {
+        throw new Error('Failed to fetch audio from URL');
+      }
+      return { blob: await readBody(audioResponse, options), alignment: null };
+    }
+
+    throw new Error('Unexpected response format from voice API');
+  }
+
+  const audioBlob = await readBody(response, options);
+  if (audioBlob.size === 0) {
+    throw new Error('Empty response from voice API');
+  }
+  return { blob: audioBlob, alignment: null };
+};
+
+/**
+ * Turn a provider response into an audio blob
+ */
+export const readAudioResponse = async (response: Response, options: SynthesizeOptions = {}): Promise<Blob> =>
+  (await readTimedAudioResponse(response, options)).blob;
+
+/**
+ * ElevenLabs with-timestamps JSON for a synthesis result, as served by the
+ * `/api/tts` route when the browser asks for timing
+ */
+export const toTimedAudioJson = async ({ blob, alignment }: SynthesisResult) => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+
+  return {
+    audio_base64: btoa(binary),
+    content_type: blob.type || 'audio/mpeg',
+    alignment: alignment
+      ? {
+          characters: alignment.characters,
+          character_start_times_seconds: alignment.startTimes,
+          character_end_times_seconds: alignment.endTimes,
+        }
+      : null,
+  };
+};
+
+interface ElevenLabsVoice {
+  voice_id: string;
+  name: string;
+  category?: string;
+  description?: string | null;
+  preview_url?: string | null;
+  labels?: Record<string, string | undefined>;
+  verified_languages?: { language: string }[];
+}
+
+const titleCase = (value: string): string => value.replace(/\b[a-z]/g, letter => letter.toUpperCase());
+
+/**
+ * Map an ElevenLabs `/v1/voices` response onto the app's catalog entries
+ */
+export const parseElevenLabsVoices = (json: unknown): Voice[] => {
+  const voices = (json as { voices?: ElevenLabsVoice[] } | null)?.voices;
+  if (!Array.isArray(voices)) {
+    throw new Error('Unexpected voice list format');
+  }
+
+  return voices
+    .filter(voice => voice.voice_id && voice.name)
+    .map((voice): Voice => {
+      const labels = voice.labels ?? {};
+      const gender = labels.gender?.toLowerCase();
+      return {
+        id: voice.voice_id,
+        name: voice.name,
+        gender: (gender === 'male' || gender === 'female' ? gender : 'neutral') as VoiceGender,
+        accent: titleCase(labels.accent || 'Neutral'),
+        language: labels.language || voice.verified_languages?.[0]?.language || 'en',
+        age: labels.age || undefined,
+        description: labels.description || voice.description || '',
+        tags: [labels.use_case, labels.descriptive]
+          .filter((tag): tag is string => Boolean(tag))
+          .map(tag => tag.replace(/_/g, ' ')),
+        sample: voice.preview_url || undefined,
+        premium: voice.category === 'professional',
+      };
+    });
+};
+
+/** Models behind the ElevenLabs-style relay and server route */
+export const ELEVENLABS_MODELS: TtsModel[] = [
+  { id: 'eleven_multilingual_v2', name: 'Multilingual v2', description: 'Most lifelike, 29 languages' },
+  { id: 'eleven_turbo_v2_5', name: 'Turbo v2.5', description: 'Faster, slightly less expressive' },
+  { id: 'eleven_flash_v2_5', name: 'Flash v2.5', description: 'Lowest latency, for drafts' },
+  { id: 'eleven_monolingual_v1', name: 'English v1', description: 'Legacy English-only model' },
+];
+
+/**
+ * Chat-completions relay in front of ElevenLabs.
+ * Credentials come from configuration only; in the browser prefer the
+ * `server` provider so they never reach the client bundle.
+ */
+export const createProxyTtsProvider = (config: Omit<TtsConfig, 'provider'> = {}): TtsProvider => {
+  const endpoint = config.endpoint || 'https://oi-server.onrender.com/chat/completions';
+  const model = config.model || 'elevenlabs/eleven-multilingual-v2';
+  const voicesEndpoint = config.voicesEndpoint;
+  const headers = {
+    ...(config.customerId ? { 'CustomerId': config.customerId } : {}),
+    'Content-Type': 'application/json',
+    ...(config.apiKey ? { 'Authorization': `Bearer ${config.apiKey}` } : {}),
+  };
+
+  const synthesizeWithAlignment = async (request: VoiceRequest, options: SynthesizeOptions = {}) => {
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model,
+        messages: [
+          {
+            role: 'user',
+            content: JSON.stringify(request),
+          },
+        ],
+        max_tokens: 1000,
+        temperature: 0.1,
+      }),
+      signal: options.signal,
+    });
+
+    // Timing comes through when the relay answers in the with-timestamps format
+    return readTimedAudioResponse(response, options);
+  };
+
+  return {
+    id: 'proxy',
+    name: 'ElevenLabs (proxy)',
+    speedRange: null,
+    // ElevenLabs reads <break> tags in the text
+    ssmlElements: ['break'],
+    pronunciationLocators: true,
+    models: ELEVENLABS_MODELS,
+    expressiveSettings: true,
+    synthesize: async (request, options = {}) => (await synthesizeWithAlignment(request, options)).blob,
+    synthesizeWithAlignment,
+    // The relay only synthesizes; the catalog comes from an ElevenLabs-style
+    // /v1/voices URL when one is configured
+    listVoices: voicesEndpoint
+      ? async (options = {}) => {
+          const response = await fetch(voicesEndpoint, { headers, signal: options.signal });
+          if (!response.ok) {
+            throw new Error(`HTTP error! status: ${response.status}`);
+          }
+          return parseElevenLabsVoices(await response.json());
+        }
+      : undefined,
+  };
+};
+
+/**
+ * Same-origin `/api/tts` route (or a self-hosted copy of it) that holds the
+ * upstream credentials and accepts the plain voice request
+ */
+export const createServerTtsProvider = (config: Omit<TtsConfig, 'provider'> = {}): TtsProvider => {
+  const endpoint = config.endpoint || '/api/tts';
+  const voicesEndpoint = config.voicesEndpoint || endpoint.replace(/\/tts\/?$/, '/voices');
+
+  return {
+    id: 'server',
+    name: 'VoiceGen server',
+    // The upstream is configured server-side, so assume nothing
+    speedRange: null,
+    ssmlElements: [],
+    pronunciationLocators: false,
+    // The default upstream is the ElevenLabs relay; requests pass through as-is
+    models: ELEVENLABS_MODELS,
+    expressiveSettings: true,
+    synthesize: async (request, options = {}) => {
+      const response = await fetch(endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(request),
+        signal: options.signal,
+      });
+
+      return readAudioResponse(response, options);
+    },
+    // The route answers with timing JSON when asked, or plain audio otherwise
+    synthesizeWithAlignment: async (request, options = {}) => {
+      const response = await fetch(endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'Accept': 'application/json, audio/*' },
+        body: JSON.stringify(request),
+        signal: options.signal,
+      });
+
+      return readTimedAudioResponse(response, options);
+    },
+    listVoices: async (options = {}) => {
+      const response = await fetch(voicesEndpoint, { signal: options.signal });
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+
+      const { voices } = await response.json();
+      if (!Array.isArray(voices)) {
+        throw new Error('Unexpected voice list format');
+      }
+      return voices;
+    },
+  };
+};
+
+// Speech models offered by the OpenAI API
+const OPENAI_MODELS: TtsModel[] = [
+  { id: 'tts-1', name: 'TTS 1', description: 'Fast, good for drafts' },
+  { id: 'tts-1-hd', name: 'TTS 1 HD', description: 'Higher quality, slower' },
+  { id: 'gpt-4o-mini-tts', name: 'GPT-4o mini TTS', description: 'Newest, most natural' },
+];
+
+// Closest OpenAI voices for the bundled ElevenLabs catalog
+const OPENAI_VOICE_MAP: Record<string, string> = {
+  rachel: 'nova',
+  domi: 'shimmer',
+  bella: 'coral',
+  antoni: 'onyx',
+  elli: 'sage',
+  josh: 'echo',
+  arnold: 'fable',
+  adam: 'ash',
+  sam: 'alloy',
+};
+
+/**
+ * Any server implementing the OpenAI `/audio/speech` endpoint
+ */
+export const createOpenAiTtsProvider = (config: Omit<TtsConfig, 'provider'> = {}): TtsProvider => {
+  const baseUrl = (config.endpoint || 'https://api.openai.com/v1').replace(/\/$/, '');
+  const defaultModel = config.model || 'tts-1';
+  // The configured model leads the list so it stays the default
+  const configured = OPENAI_MODELS.find(item => item.id === defaultModel)
+    ?? { id: defaultModel, name: defaultModel, description: 'Configured model' };
+  const models = [configured, ...OPENAI_MODELS.filter(item => item.id !== defaultModel)];
+
+  return {
+    id: 'openai',
+    name: 'OpenAI-compatible',
+    speedRange: [0.25, 4],
+    ssmlElements: [],
+    pronunciationLocators: false,
+    models,
+    expressiveSettings: false,
+    synthesize: async (request, options = {}) => {
+      const response = await fetch(`${baseUrl}/audio/speech`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(config.apiKey ? { 'Authorization': `Bearer ${config.apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          // Requests built for another provider carry its model ids
+          model: models.some(item => item.id === request.model_id) ? request.model_id : defaultModel,
+          input: request.text,
+          voice: OPENAI_VOICE_MAP[request.voice] || request.voice,
+          response_format: 'mp3',
+          ...(request.voice_settings.speed !== undefined ? { speed: request.voice_settings.speed } : {}),
+        }),
+        signal: options.signal,
+      });
+
+      return readAudioResponse(response, options);
+    },
+  };
+};
+
+/**
+ * Placeholder tone as long as the text would take to read, with its timing
+ * spread evenly over the characters like a steady speaker
+ */
+const renderMockSpeech = (request: VoiceRequest, options: SynthesizeOptions): SynthesisResult => {
+  if (options.signal?.aborted) {
+    throw new DOMException('The operation was aborted.', 'AbortError');
+  }
+
+  const sampleRate = 22050;
+  const duration = Math.max(1, estimateReadingTime(request.text));
+  const samples = new Float32Array(Math.round(duration * sampleRate));
+  const frequency = 180 + (request.voice.charCodeAt(0) % 8) * 20;
+
+  for (let i = 0; i < samples.length; i++) {
+    const t = i / sampleRate;
+    // Roughly four "syllables" per second so it sounds like speech rhythm
+    const envelope = Math.max(0, Math.sin(Math.PI * 4 * t));
+    samples[i] = Math.sin(2 * Math.PI * frequency * t) * envelope * 0.3;
+  }
+
+  const characters = Array.from(request.text);
+  const step = duration / Math.max(1, characters.length);
+  return {
+    blob: encodeWav([samples], sampleRate),
+    alignment: {
+      characters,
+      startTimes: characters.map((_, index) => index * step),
+      endTimes: characters.map((_, index) => (index + 1) * step),
+    },
+  };
+};
+
+/**
+ * Offline provider that renders a placeholder tone for UI development
+ */
+export const createMockTtsProvider = (): TtsProvider => ({
+  id: 'mock',
+  name: 'Local mock',
+  speedRange: null,
+  ssmlElements: [],
+  pronunciationLocators: false,
+  models: [{ id: 'mock', name: 'Placeholder tone', description: 'No network, for UI work' }],
+  expressiveSettings: false,
+  synthesize: async (request, options = {}) => renderMockSpeech(request, options).blob,
+  synthesizeWithAlignment: async (request, options = {}) => renderMockSpeech(request, options),
+  listVoices: async () => BUNDLED_VOICES,
+});
+
+/**
+ * Build a provider from explicit configuration
+ */
+export const createTtsProvider = (config: TtsConfig): TtsProvider => {
+  switch (config.provider) {
+    case 'openai':
+      return createOpenAiTtsProvider(config);
+    case 'mock':
+      return createMockTtsProvider();
+    case 'server':
+      return createServerTtsProvider(config);
+    case 'proxy':
+      return createProxyTtsProvider(config);
+    default:
+      throw new Error(`Unknown TTS provider: ${config.provider}`);
+  }
+};
+
+let defaultProvider: TtsProvider | null = null;
+
+/**
+ * Provider selected by the build configuration
+ */
+export const getTtsProvider = (): TtsProvider => {
+  if (!defaultProvider) {
+    defaultProvider = createTtsProvider(getTtsConfig());
+  }
+  return defaultProvider;
+};
@@ -0,0 +1,135 @@
+/**
+ * Voice catalog loaded from the active provider, cached in localStorage
+ */
+
+import { getTtsProvider, type TtsProvider } from './tts-provider';
+import { BUNDLED_VOICES, type Voice } from './voices';
+
+export type VoiceCatalogSource = 'bundled' | 'cache' | 'provider';
+
+export interface VoiceCatalog {
+  voices: Voice[];
+  source: VoiceCatalogSource;
+  /** When the voices were fetched; null for the bundled list */
+  fetchedAt: number | null;
+  loading: boolean;
+  /** Why the last refresh failed, if it did */
+  error: string | null;
+}
+
+interface CachedCatalog {
+  voices: Voice[];
+  fetchedAt: number;
+}
+
+/** Refetched after a day; older copies are still used when offline */
+export const VOICE_CATALOG_TTL_MS = 24 * 60 * 60 * 1000;
+
+const STORAGE_KEY = 'voicegen:voices';
+
+const BUNDLED_CATALOG: VoiceCatalog = {
+  voices: BUNDLED_VOICES,
+  source: 'bundled',
+  fetchedAt: null,
+  loading: false,
+  error: null,
+};
+
+// Keyed by provider id so switching builds doesn't mix catalogs
+const readCache = (providerId: string): CachedCatalog | null => {
+  try {
+    const saved = JSON.parse(window.localStorage.getItem(STORAGE_KEY) || '{}');
+    const entry = saved[providerId];
+    return entry && Array.isArray(entry.voices) && entry.voices.length > 0 ? entry : null;
+  } catch {
+    return null;
+  }
+};
+
+const writeCache = (providerId: string, entry: CachedCatalog): void => {
+  try {
+    const saved = JSON.parse(window.localStorage.getItem(STORAGE_KEY) || '{}');
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...saved, [providerId]: entry }));
+  } catch (error) {
+    console.error('Failed to cache voice catalog:', error);
+  }
+};
+
+let currentCatalog: VoiceCatalog = BUNDLED_CATALOG;
+let pendingRefresh: Promise<void> | null = null;
+let initialized = false;
+const listeners = new Set<() => void>();
+
+const setCatalog = (catalog: VoiceCatalog): void => {
+  currentCatalog = catalog;
+  listeners.forEach(listener => listener());
+};
+
+/**
+ * Fetch the provider's voices and cache them. On failure the current list
+ * (cached or bundled) stays in place with the error recorded.
+ */
+export const refreshVoiceCatalog = (provider: TtsProvider = getTtsProvider()): Promise<void> => {
+  if (!provider.listVoices) return Promise.resolve();
+  if (pendingRefresh) return pendingRefresh;
+
+  setCatalog({ ...currentCatalog, loading: true, error: null });
+
+  pendingRefresh = provider.listVoices()
+    .then(voices => {
+      if (voices.length === 0) {
+        throw new Error('The provider returned no voices');
+      }
+
+      const fetchedAt = Date.now();
+      writeCache(provider.id, { voices, fetchedAt });
+      setCatalog({ voices, source: 'provider', fetchedAt, loading: false, error: null });
+    })
+    .catch(error => {
+      console.error('Failed to load voice catalog:', error);
+      setCatalog({
+        ...currentCatalog,
+        loading: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    })
+    .finally(() => {
+      pendingRefresh = null;
+    });
+
+  return pendingRefresh;
+};
+
+/**
+ * Start from the cache, refreshing it in the background once it is stale
+ */
+const initialize = (): void => {
+  if (initialized || typeof window === 'undefined') return;
+  initialized = true;
+
+  const provider = getTtsProvider();
+  if (!provider.listVoices) return;
+
+  const cached = readCache(provider.id);
+  if (cached) {
+    currentCatalog = { voices: cached.voices, source: 'cache', fetchedAt: cached.fetchedAt, loading: false, error: null };
+  }
+  if (!cached || Date.now() - cached.fetchedAt > VOICE_CATALOG_TTL_MS) {
+    // After the current render, since this runs inside a store read
+    queueMicrotask(() => refreshVoiceCatalog(provider));
+  }
+};
+
+export const getVoiceCatalog = (): VoiceCatalog => {
+  initialize();
+  return currentCatalog;
+};
+
+export const getBundledVoiceCatalog = (): VoiceCatalog => BUNDLED_CATALOG;
+
+export const subscribeVoiceCatalog = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
@@ -0,0 +1,304 @@
+/**
+ * Voice setting presets: the built-in ones and user-defined recipes
+ */
+
+export interface PresetSettings {
+  speed: number;
+  pitch: number;
+  stability: number;
+  clarity: number;
+}
+
+export interface VoicePreset {
+  name: string;
+  settings: PresetSettings;
+  description: string;
+}
+
+export const VOICE_PRESETS: VoicePreset[] = [
+  {
+    name: 'Natural',
+    settings: { speed: 1.0, pitch: 1.0, stability: 0.75, clarity: 0.75 },
+    description: 'Balanced, natural speech',
+  },
+  {
+    name: 'Expressive',
+    settings: { speed: 0.95, pitch: 1.05, stability: 0.6, clarity: 0.8 },
+    description: 'More emotional and varied',
+  },
+  {
+    name: 'Professional',
+    settings: { speed: 0.9, pitch: 0.95, stability: 0.9, clarity: 0.9 },
+    description: 'Clear, consistent, formal',
+  },
+  {
+    name: 'Storytelling',
+    settings: { speed: 0.85, pitch: 1.1, stability: 0.65, clarity: 0.75 },
+    description: 'Engaging narrative style',
+  },
+];
+
+const SETTING_KEYS: (keyof PresetSettings)[] = ['speed', 'pitch', 'stability', 'clarity'];
+
+/**
+ * Preset whose values match the given settings, if any. Custom presets also
+ * pin a voice, which has to match too.
+ */
+export const findMatchingPreset = (
+  settings: PresetSettings & { voice?: string },
+  presets: VoicePreset[] = VOICE_PRESETS
+): VoicePreset | null =>
+  presets.find(preset => {
+    const voice = (preset.settings as Partial<CustomPresetSettings>).voice;
+    return (voice === undefined || voice === settings.voice) &&
+      SETTING_KEYS.every(key => Math.abs(preset.settings[key] - settings[key]) < 0.001);
+  }) ?? null;
+
+/**
+ * Everything a custom preset captures. Fields newer than a preset are left
+ * out of it, so applying it keeps the current value.
+ */
+export interface CustomPresetSettings extends PresetSettings {
+  voice: string;
+  model?: string;
+  style?: number;
+  speakerBoost?: boolean;
+}
+
+export interface CustomPreset {
+  id: string;
+  name: string;
+  description: string;
+  settings: CustomPresetSettings;
+  /** Loaded from the deployment's presets.json; read-only in the app */
+  workspace?: boolean;
+}
+
+export interface PresetLibrary {
+  presets: CustomPreset[];
+  /** Preset applied when the app starts */
+  defaultId: string | null;
+}
+
+/** Shape of exported preset files and of a deployment's presets.json */
+export interface PresetFile {
+  version: 1;
+  presets: { name: string; description?: string; settings: CustomPresetSettings }[];
+  /** Name of the preset to use as the default */
+  default?: string;
+}
+
+/**
+ * Built-in presets followed by the library's, skipping names already taken
+ */
+export const mergePresets = (library: PresetLibrary): VoicePreset[] => {
+  const merged = [...VOICE_PRESETS];
+  for (const preset of library.presets) {
+    if (!merged.some(existing => existing.name === preset.name)) merged.push(preset);
+  }
+  return merged;
+};
+
+const STORAGE_KEY = 'voicegen:presets';
+
+/** Shared with every user of a deployment, e.g. the team's house voice */
+export const WORKSPACE_PRESETS_URL = 'presets.json';
+
+const EMPTY_LIBRARY: PresetLibrary = { presets: [], defaultId: null };
+
+const createPresetId = (): string => Date.now().toString(36) + Math.random().toString(36).slice(2, 8);
+
+/**
+ * Keep only the known settings fields, so presets from files or newer
+ * versions can't smuggle in anything else
+ */
+const pickPresetSettings = (settings: Partial<CustomPresetSettings>): CustomPresetSettings => {
+  const picked: CustomPresetSettings = {
+    voice: String(settings.voice || 'rachel'),
+    speed: Number(settings.speed ?? 1),
+    pitch: Number(settings.pitch ?? 1),
+    stability: Number(settings.stability ?? 0.75),
+    clarity: Number(settings.clarity ?? 0.75),
+  };
+  if (settings.model) picked.model = String(settings.model);
+  if (settings.style !== undefined) picked.style = Number(settings.style);
+  if (settings.speakerBoost !== undefined) picked.speakerBoost = Boolean(settings.speakerBoost);
+  return picked;
+};
+
+export const createCustomPreset = (
+  name: string,
+  settings: Partial<CustomPresetSettings>,
+  description: string = ''
+): CustomPreset => ({
+  id: createPresetId(),
+  name,
+  description,
+  settings: pickPresetSettings(settings),
+});
+
+/**
+ * Presets saved in this browser
+ */
+export const loadPresetLibrary = (): PresetLibrary => {
+  if (typeof window === 'undefined') return EMPTY_LIBRARY;
+
+  try {
+    const saved = JSON.parse(window.localStorage.getItem(STORAGE_KEY) || 'null') as PresetLibrary | null;
+    if (!saved || !Array.isArray(saved.presets)) return EMPTY_LIBRARY;
+    return { presets: saved.presets, defaultId: saved.defaultId ?? null };
+  } catch {
+    return EMPTY_LIBRARY;
+  }
+};
+
+const savePresetLibrary = (library: PresetLibrary): void => {
+  try {
+    // Workspace presets come from the server on every load
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify({
+      ...library,
+      presets: library.presets.filter(preset => !preset.workspace),
+    }));
+  } catch (error) {
+    console.error('Failed to save voice presets:', error);
+  }
+};
+
+/**
+ * Serialize presets for sharing; the default travels by name
+ */
+export const exportPresets = (library: PresetLibrary): string => {
+  const file: PresetFile = {
+    version: 1,
+    presets: library.presets.map(({ name, description, settings }) => ({ name, description, settings })),
+  };
+  const defaultPreset = library.presets.find(preset => preset.id === library.defaultId);
+  if (defaultPreset) file.default = defaultPreset.name;
+  return JSON.stringify(file, null, 2);
+};
+
+/**
+ * Parse an exported preset file into fresh presets, plus the one it marks
+ * as default
+ */
+export const parsePresetFile = (json: string): { presets: CustomPreset[]; defaultPreset: CustomPreset | null } => {
+  let file: PresetFile;
+  try {
+    file = JSON.parse(json);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+
+  if (!file || !Array.isArray(file.presets)) {
+    throw new Error('The file does not contain voice presets');
+  }
+
+  const presets = file.presets
+    .filter(preset => preset && typeof preset.name === 'string' && preset.settings)
+    .map(preset => createCustomPreset(preset.name.trim() || 'Untitled', preset.settings, preset.description ?? ''));
+
+  return { presets, defaultPreset: presets.find(preset => preset.name === file.default) ?? null };
+};
+
+let currentLibrary: PresetLibrary | null = null;
+const listeners = new Set<() => void>();
+
+export const getPresetLibrary = (): PresetLibrary => {
+  if (!currentLibrary) currentLibrary = loadPresetLibrary();
+  return currentLibrary;
+};
+
+export const getEmptyPresetLibrary = (): PresetLibrary => EMPTY_LIBRARY;
+
+export const setPresetLibrary = (library: PresetLibrary): void => {
+  currentLibrary = library;
+  savePresetLibrary(library);
+  listeners.forEach(listener => listener());
+};
+
+export const subscribePresetLibrary = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const saveCustomPreset = (preset: CustomPreset): void => {
+  const library = getPresetLibrary();
+  const exists = library.presets.some(item => item.id === preset.id);
+  setPresetLibrary({
+    ...library,
+    presets: exists
+      ? library.presets.map(item => (item.id === preset.id ? preset : item))
+      : [...library.presets, preset],
+  });
+};
+
+export const deleteCustomPreset = (id: string): void => {
+  const library = getPresetLibrary();
+  setPresetLibrary({
+    presets: library.presets.filter(preset => preset.id !== id),
+    defaultId: library.defaultId === id ? null : library.defaultId,
+  });
+};
+
+export const setDefaultPreset = (id: string | null): void => {
+  setPresetLibrary({ ...getPresetLibrary(), defaultId: id });
+};
+
+/**
+ * Add imported presets; one named like an existing preset of yours replaces
+ * it in place, so importing the same file twice doesn't duplicate anything.
+ * The file's default replaces the current one.
+ */
+export const importPresets = (json: string): number => {
+  const { presets, defaultPreset } = parsePresetFile(json);
+  const library = getPresetLibrary();
+
+  const merged = [...library.presets];
+  let defaultId = library.defaultId;
+  for (const preset of presets) {
+    const index = merged.findIndex(item => !item.workspace && item.name === preset.name);
+    // Keep the replaced preset's id so a default pointing at it still applies
+    const id = index === -1 ? preset.id : merged[index].id;
+    if (index === -1) merged.push(preset);
+    else merged[index] = { ...preset, id };
+    if (preset === defaultPreset) defaultId = id;
+  }
+
+  setPresetLibrary({ presets: merged, defaultId });
+  return presets.length;
+};
+
+/**
+ * Merge the deployment's presets.json, if it has one. Its default applies
+ * unless this browser already chose one.
+ */
+export const loadWorkspacePresets = async (): Promise<PresetLibrary> => {
+  const library = getPresetLibrary();
+
+  try {
+    const response = await fetch(WORKSPACE_PRESETS_URL, { cache: 'no-cache' });
+    if (!response.ok) return library;
+
+    const { presets, defaultPreset } = parsePresetFile(await response.text());
+    const workspace = presets.map(preset => ({
+      ...preset,
+      // Stable ids so a chosen default survives reloads
+      id: `workspace:${preset.name}`,
+      workspace: true,
+    }));
+
+    const merged: PresetLibrary = {
+      presets: [...workspace, ...library.presets.filter(preset => !preset.workspace)],
+      defaultId: library.defaultId ?? (defaultPreset ? `workspace:${defaultPreset.name}` : null),
+    };
+    currentLibrary = merged;
+    listeners.forEach(listener => listener());
+    return merged;
+  } catch (error) {
+    // Most deployments have no workspace file
+    console.debug('No workspace presets loaded:', error);
+    return library;
+  }
+};
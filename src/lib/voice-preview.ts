@@ -0,0 +1,208 @@
+/**
+ * Voice previews: cached per voice, settings and text, played one at a time
+ */
+
+import { generateSpeech } from './generation';
+import { parseMarkup, renderSegments, type TextFormat } from './markup';
+import { parseSsml, renderSsmlSegments } from './ssml';
+import { getTtsProvider } from './tts-provider';
+
+interface VoiceSettings {
+  voice: string;
+  speed: number;
+  pitch: number;
+  stability: number;
+  clarity: number;
+  model?: string;
+  style?: number;
+  speakerBoost?: boolean;
+  seed?: number | null;
+}
+
+export type PreviewTextSource = 'stock' | 'editor' | 'catalog';
+
+export interface PreviewState {
+  status: 'idle' | 'loading' | 'playing';
+  /** Voice being fetched or played */
+  voice: string | null;
+  /** Position within a comparison, 0-based */
+  step: number;
+  total: number;
+}
+
+export const STOCK_PREVIEW_TEXT = 'Hello! This is a voice preview sample.';
+
+/** Long first sentences are cut at a word boundary */
+const MAX_PREVIEW_CHARS = 200;
+
+/** Previews kept in memory, least recently played dropped first */
+const MAX_CACHED_PREVIEWS = 24;
+
+const IDLE_STATE: PreviewState = { status: 'idle', voice: null, step: 0, total: 0 };
+
+/**
+ * First sentence of the editor text as it will be spoken, without markup
+ */
+export const firstSentence = (text: string, format: TextFormat = 'markup'): string => {
+  const segments = format === 'ssml'
+    ? renderSsmlSegments(parseSsml(text).nodes)
+    : renderSegments(parseMarkup(text).nodes);
+
+  const spoken = segments
+    .flatMap(segment => (segment.type === 'speech' ? [segment.text] : []))
+    .join('')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  const sentence = spoken.match(/^.*?[.!?](?=\s|$)/)?.[0] ?? spoken;
+  if (sentence.length <= MAX_PREVIEW_CHARS) return sentence;
+
+  const cut = sentence.slice(0, MAX_PREVIEW_CHARS);
+  return `${cut.slice(0, cut.lastIndexOf(' ') > 0 ? cut.lastIndexOf(' ') : cut.length)}...`;
+};
+
+// FNV-1a; collisions only cost a wrong cached preview, never data
+const hashString = (value: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+/**
+ * Cache key for a preview: provider, voice, every setting that changes the
+ * audio, and the text
+ */
+export const previewKey = (settings: VoiceSettings, text: string): string =>
+  hashString(JSON.stringify([
+    getTtsProvider().id,
+    settings.voice,
+    settings.speed,
+    settings.pitch,
+    settings.stability,
+    settings.clarity,
+    settings.model ?? null,
+    settings.style ?? null,
+    settings.speakerBoost ?? null,
+    settings.seed ?? null,
+    text,
+  ]));
+
+const previewCache = new Map<string, Blob>();
+
+const cachePreview = (key: string, blob: Blob): void => {
+  previewCache.delete(key);
+  previewCache.set(key, blob);
+  while (previewCache.size > MAX_CACHED_PREVIEWS) {
+    previewCache.delete(previewCache.keys().next().value!);
+  }
+};
+
+/**
+ * Preview audio for a voice with the given settings, generated at most once
+ */
+const getPreviewAudio = async (settings: VoiceSettings, text: string, signal: AbortSignal): Promise<Blob> => {
+  const key = previewKey(settings, text);
+  const cached = previewCache.get(key);
+  if (cached) {
+    cachePreview(key, cached);
+    return cached;
+  }
+
+  const { blob } = await generateSpeech(text, settings, { signal });
+  cachePreview(key, blob);
+  return blob;
+};
+
+export const isPreviewCached = (settings: VoiceSettings, text: string): boolean =>
+  previewCache.has(previewKey(settings, text));
+
+let currentState: PreviewState = IDLE_STATE;
+let currentRun: { controller: AbortController; audio: HTMLAudioElement | null; finish: () => void } | null = null;
+const listeners = new Set<() => void>();
+
+const setState = (state: PreviewState): void => {
+  currentState = state;
+  listeners.forEach(listener => listener());
+};
+
+/**
+ * Play audio to the end, or until the run is stopped
+ */
+const playSource = (source: string, run: NonNullable<typeof currentRun>): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const audio = new Audio(source);
+    run.audio = audio;
+    run.finish = resolve;
+    audio.addEventListener('ended', () => resolve());
+    audio.addEventListener('error', () => reject(new Error('Preview playback failed')));
+    audio.play().catch(reject);
+  });
+
+/**
+ * Play previews back to back, e.g. two voices for an A/B comparison.
+ * Stops whatever preview was playing first, so previews never overlap.
+ * Items with a sample URL play it instead of generating audio.
+ */
+export const playPreviews = async (
+  items: { settings: VoiceSettings; sample?: string }[],
+  text: string
+): Promise<void> => {
+  stopPreview();
+
+  const run = { controller: new AbortController(), audio: null as HTMLAudioElement | null, finish: () => {} };
+  currentRun = run;
+
+  try {
+    for (const [step, item] of items.entries()) {
+      setState({ status: 'loading', voice: item.settings.voice, step, total: items.length });
+
+      const blob = item.sample ? null : await getPreviewAudio(item.settings, text, run.controller.signal);
+      if (currentRun !== run) return;
+
+      const source = blob ? URL.createObjectURL(blob) : item.sample!;
+      setState({ status: 'playing', voice: item.settings.voice, step, total: items.length });
+      try {
+        await playSource(source, run);
+      } finally {
+        if (blob) URL.revokeObjectURL(source);
+      }
+      if (currentRun !== run) return;
+    }
+  } catch (error) {
+    if (currentRun !== run) return;
+    console.error('Preview failed:', error);
+  }
+
+  if (currentRun === run) {
+    currentRun = null;
+    setState(IDLE_STATE);
+  }
+};
+
+/**
+ * Stop the current preview, cancelling generation if it is still loading
+ */
+export const stopPreview = (): void => {
+  const run = currentRun;
+  if (!run) return;
+
+  currentRun = null;
+  run.controller.abort();
+  run.audio?.pause();
+  run.finish();
+  setState(IDLE_STATE);
+};
+
+export const getPreviewState = (): PreviewState => currentState;
+
+export const getIdlePreviewState = (): PreviewState => IDLE_STATE;
+
+export const subscribePreviewState = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
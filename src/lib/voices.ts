@@ -0,0 +1,180 @@
+/**
+ * Voice catalog: the bundled fallback list and helpers for browsing it
+ */
+
+export type VoiceGender = 'male' | 'female' | 'neutral';
+
+export interface Voice {
+  id: string;
+  name: string;
+  gender: VoiceGender;
+  accent: string;
+  /** BCP 47 language code, e.g. 'en' */
+  language: string;
+  /** e.g. 'young', 'middle aged', 'old' */
+  age?: string;
+  description: string;
+  /** Use cases and descriptive labels, e.g. 'narration' */
+  tags: string[];
+  /** URL of a ready-made sample clip */
+  sample?: string;
+  premium?: boolean;
+}
+
+export interface VoiceFilters {
+  query: string;
+  /** 'all' or a value from the catalog */
+  language: string;
+  accent: string;
+  gender: string;
+  tag: string;
+}
+
+export const DEFAULT_VOICE_FILTERS: VoiceFilters = {
+  query: '',
+  language: 'all',
+  accent: 'all',
+  gender: 'all',
+  tag: 'all',
+};
+
+/** Shipped with the app; used when the provider can't list its voices */
+export const BUNDLED_VOICES: Voice[] = [
+  {
+    id: 'rachel',
+    name: 'Rachel',
+    gender: 'female',
+    accent: 'American',
+    language: 'en',
+    age: 'young',
+    description: 'Warm, professional voice perfect for narrations',
+    tags: ['narration', 'calm'],
+  },
+  {
+    id: 'domi',
+    name: 'Domi',
+    gender: 'female',
+    accent: 'American',
+    language: 'en',
+    age: 'young',
+    description: 'Strong, confident voice with clear articulation',
+    tags: ['narration', 'strong'],
+  },
+  {
+    id: 'bella',
+    name: 'Bella',
+    gender: 'female',
+    accent: 'American',
+    language: 'en',
+    age: 'young',
+    description: 'Soft, gentle voice ideal for storytelling',
+    tags: ['narration', 'soft'],
+  },
+  {
+    id: 'antoni',
+    name: 'Antoni',
+    gender: 'male',
+    accent: 'American',
+    language: 'en',
+    age: 'young',
+    description: 'Deep, authoritative voice for professional content',
+    tags: ['narration', 'well-rounded'],
+  },
+  {
+    id: 'elli',
+    name: 'Elli',
+    gender: 'female',
+    accent: 'American',
+    language: 'en',
+    age: 'young',
+    description: 'Young, energetic voice with natural flow',
+    tags: ['narration', 'emotional'],
+  },
+  {
+    id: 'josh',
+    name: 'Josh',
+    gender: 'male',
+    accent: 'American',
+    language: 'en',
+    age: 'young',
+    description: 'Friendly, conversational voice for casual content',
+    tags: ['narration', 'deep'],
+  },
+  {
+    id: 'arnold',
+    name: 'Arnold',
+    gender: 'male',
+    accent: 'American',
+    language: 'en',
+    age: 'middle aged',
+    description: 'Mature, distinguished voice for formal presentations',
+    tags: ['narration', 'crisp'],
+  },
+  {
+    id: 'adam',
+    name: 'Adam',
+    gender: 'male',
+    accent: 'American',
+    language: 'en',
+    age: 'middle aged',
+    description: 'Clear, reliable voice for educational content',
+    tags: ['narration', 'deep'],
+  },
+  {
+    id: 'sam',
+    name: 'Sam',
+    gender: 'male',
+    accent: 'American',
+    language: 'en',
+    age: 'young',
+    description: 'Versatile voice suitable for various content types',
+    tags: ['narration', 'raspy'],
+  },
+];
+
+export const genderIcon = (gender: VoiceGender): string =>
+  gender === 'male' ? '👨' : gender === 'female' ? '👩' : '🧑';
+
+/**
+ * Display name of a language code in English, e.g. 'pt' -> 'Portuguese'
+ */
+export const languageName = (code: string): string => {
+  try {
+    return new Intl.DisplayNames(['en'], { type: 'language' }).of(code) ?? code;
+  } catch {
+    return code;
+  }
+};
+
+/**
+ * Voices matching every filter. The query matches name, description, accent
+ * and tags, all of its words in any order.
+ */
+export const filterVoices = (voices: Voice[], filters: VoiceFilters): Voice[] => {
+  const terms = filters.query.toLowerCase().split(/\s+/).filter(Boolean);
+
+  return voices.filter(voice => {
+    if (filters.language !== 'all' && voice.language !== filters.language) return false;
+    if (filters.accent !== 'all' && voice.accent !== filters.accent) return false;
+    if (filters.gender !== 'all' && voice.gender !== filters.gender) return false;
+    if (filters.tag !== 'all' && !voice.tags.includes(filters.tag)) return false;
+
+    const haystack = [voice.name, voice.description, voice.accent, languageName(voice.language), ...voice.tags]
+      .join(' ')
+      .toLowerCase();
+    return terms.every(term => haystack.includes(term));
+  });
+};
+
+/**
+ * Distinct filter values present in the catalog, sorted
+ */
+export const getVoiceFacets = (voices: Voice[]) => {
+  const distinct = (values: string[]) => Array.from(new Set(values.filter(Boolean))).sort();
+  return {
+    languages: distinct(voices.map(voice => voice.language)),
+    accents: distinct(voices.map(voice => voice.accent)),
+    genders: distinct(voices.map(voice => voice.gender)),
+    tags: distinct(voices.flatMap(voice => voice.tags)),
+  };
+};
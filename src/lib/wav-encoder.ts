@@ -0,0 +1,73 @@
+/**
+ * Pure TypeScript PCM WAV encoder
+ */
+
+const writeString = (view: DataView, offset: number, value: string): void => {
+  for (let i = 0; i < value.length; i++) {
+    view.setUint8(offset + i, value.charCodeAt(i));
+  }
+};
+
+export type WavBitDepth = 16 | 24;
+
+const writeSample = (view: DataView, offset: number, sample: number, bitDepth: WavBitDepth): void => {
+  const clamped = Math.max(-1, Math.min(1, sample));
+
+  if (bitDepth === 16) {
+    view.setInt16(offset, clamped < 0 ? clamped * 0x8000 : clamped * 0x7fff, true);
+    return;
+  }
+
+  // 24-bit little-endian two's complement
+  const value = Math.round(clamped < 0 ? clamped * 0x800000 : clamped * 0x7fffff);
+  view.setUint8(offset, value & 0xff);
+  view.setUint8(offset + 1, (value >> 8) & 0xff);
+  view.setUint8(offset + 2, (value >> 16) & 0xff);
+};
+
+/**
+ * Encode planar float samples (-1..1) as a PCM WAV blob
+ */
+export const encodeWav = (
+  channels: Float32Array[],
+  sampleRate: number,
+  bitDepth: WavBitDepth = 16
+): Blob => {
+  const numChannels = Math.max(1, channels.length);
+  const numFrames = channels[0]?.length ?? 0;
+  const bytesPerSample = bitDepth / 8;
+  const blockAlign = numChannels * bytesPerSample;
+  const dataSize = numFrames * blockAlign;
+
+  const buffer = new ArrayBuffer(44 + dataSize);
+  const view = new DataView(buffer);
+
+  // RIFF header
+  writeString(view, 0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  writeString(view, 8, 'WAVE');
+
+  // fmt chunk
+  writeString(view, 12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, numChannels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * blockAlign, true);
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, bytesPerSample * 8, true);
+
+  // data chunk
+  writeString(view, 36, 'data');
+  view.setUint32(40, dataSize, true);
+
+  let offset = 44;
+  for (let frame = 0; frame < numFrames; frame++) {
+    for (let channel = 0; channel < numChannels; channel++) {
+      writeSample(view, offset, channels[channel]?.[frame] ?? 0, bitDepth);
+      offset += bytesPerSample;
+    }
+  }
+
+  return new Blob([buffer], { type: 'audio/wav' });
+};
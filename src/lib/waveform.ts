@@ -0,0 +1,103 @@
+/**
+ * Waveform extraction for history items, computed in a worker and cached by id
+ */
+
+import { computeWaveform, decodeAudioBlob, type WaveformData } from './audio-utils';
+import type { WaveformWorkerRequest } from './waveform.worker';
+
+interface WaveformWorkerResponse {
+  requestId: number;
+  waveform: WaveformData;
+}
+
+const cache = new Map<string, Promise<WaveformData>>();
+const pendingRequests = new Map<number, { resolve: (waveform: WaveformData) => void; reject: (error: Error) => void }>();
+let worker: Worker | null = null;
+let workerFailed = false;
+let nextRequestId = 0;
+
+/**
+ * Give up on the worker for this session and fail everything it was working on
+ */
+const failWorker = (error: unknown): void => {
+  console.error('Waveform worker failed, computing on the main thread:', error);
+  worker?.terminate();
+  worker = null;
+  workerFailed = true;
+
+  pendingRequests.forEach(({ reject }) => reject(new Error('Waveform worker failed')));
+  pendingRequests.clear();
+};
+
+const getWorker = (): Worker | null => {
+  if (worker || workerFailed || typeof Worker === 'undefined') return worker;
+
+  try {
+    worker = new Worker(new URL('./waveform.worker.ts', import.meta.url));
+    worker.onmessage = (event: MessageEvent<WaveformWorkerResponse>) => {
+      const { requestId, waveform } = event.data;
+      pendingRequests.get(requestId)?.resolve(waveform);
+      pendingRequests.delete(requestId);
+    };
+    worker.onerror = event => failWorker(event.message || event);
+    worker.onmessageerror = event => failWorker(event);
+  } catch (error) {
+    console.error('Waveform worker unavailable, computing on the main thread:', error);
+    worker = null;
+  }
+
+  return worker;
+};
+
+const computeInWorker = (channels: Float32Array[], dataPoints: number): Promise<WaveformData> => {
+  const waveformWorker = getWorker();
+  if (!waveformWorker) {
+    return Promise.resolve(computeWaveform(channels, dataPoints));
+  }
+
+  return new Promise((resolve, reject) => {
+    const requestId = nextRequestId++;
+    pendingRequests.set(requestId, { resolve, reject });
+
+    const message: WaveformWorkerRequest = { requestId, channels, dataPoints };
+    waveformWorker.postMessage(message, channels.map(channel => channel.buffer as ArrayBuffer));
+  });
+};
+
+/**
+ * Peak/RMS waveform for an audio item. Results are cached per id, so
+ * revisiting a history entry doesn't decode it again.
+ */
+export const loadWaveform = (id: string, audioBlob: Blob, dataPoints: number = 200): Promise<WaveformData> => {
+  const key = `${id}:${dataPoints}`;
+  const cached = cache.get(key);
+  if (cached) return cached;
+
+  const compute = () => decodeAudioBlob(audioBlob).then(buffer => {
+    // Copies, because the originals belong to the AudioBuffer and can't be transferred
+    const channels = Array.from({ length: buffer.numberOfChannels }, (_, channel) =>
+      buffer.getChannelData(channel).slice()
+    );
+    return computeInWorker(channels, dataPoints);
+  });
+
+  // The channels went to the worker, so a request it dropped is decoded again
+  // and computed here
+  const promise = compute().catch(error => {
+    if (!workerFailed) throw error;
+    return compute();
+  });
+
+  cache.set(key, promise);
+  promise.catch(() => cache.delete(key));
+  return promise;
+};
+
+/**
+ * Drop cached waveforms for removed history items
+ */
+export const forgetWaveform = (id: string): void => {
+  for (const key of Array.from(cache.keys())) {
+    if (key.startsWith(`${id}:`)) cache.delete(key);
+  }
+};
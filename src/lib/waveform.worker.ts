@@ -0,0 +1,16 @@
+/**
+ * Web Worker that reduces decoded audio to waveform buckets off the main thread
+ */
+
+import { computeWaveform } from './audio-utils';
+
+export interface WaveformWorkerRequest {
+  requestId: number;
+  channels: Float32Array[];
+  dataPoints: number;
+}
+
+self.onmessage = (event: MessageEvent<WaveformWorkerRequest>) => {
+  const { requestId, channels, dataPoints } = event.data;
+  self.postMessage({ requestId, waveform: computeWaveform(channels, dataPoints) });
+};